@@ -1,11 +1,40 @@
 import { type NextRequest, NextResponse } from "next/server"
 import moment from "moment-timezone"
 import { DateTime } from "luxon"
+import {
+  getSunTimes,
+  getSunStatus,
+  getPolarStatus,
+  getGoldenHourWindows,
+  getSunPosition,
+  getCompassDirection,
+  type LightWindow,
+  type SunStatus,
+  type SunTimes,
+} from "@/lib/utils/solar"
+import { getMoonAltitude, getMoonIllumination, getMoonTimes } from "@/lib/utils/lunar"
+import { getDarknessCutoff, formatLocalTime } from "@/lib/utils/walk-times"
+import { getWeatherClient } from "@/lib/weather"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { lat, lon, date, hours, minutes, city } = body
+    const {
+      lat,
+      lon,
+      date,
+      hours,
+      minutes,
+      city,
+      walkMode = "sunset",
+      morningStart = "civilDawn",
+      finishBy = "sunset",
+      toleranceMinutes = 0,
+      schedule = "latest",
+      prepMinutes = 0,
+      travelMinutes = 0,
+      crossCheck = false,
+    } = body
 
     if (!lat || !lon || !date || (hours === undefined && minutes === undefined)) {
       return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
@@ -13,15 +42,7 @@ export async function POST(request: NextRequest) {
 
     let timezone = "UTC"
     try {
-      const timezoneUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&timezone=auto`
-      const timezoneResponse = await fetch(timezoneUrl)
-
-      if (timezoneResponse.ok) {
-        const timezoneData = await timezoneResponse.json()
-        if (timezoneData.timezone) {
-          timezone = timezoneData.timezone
-        }
-      }
+      timezone = await getWeatherClient().getTimezone(lat, lon)
     } catch (error) {
       console.error("Error looking up timezone, using UTC:", error)
     }
@@ -31,44 +52,66 @@ export async function POST(request: NextRequest) {
       actualDate = moment.tz(timezone).format("YYYY-MM-DD")
     }
 
-    // Fetch sunset data
-    let sunsetData
-    try {
-      const sunsetUrl = `https://api.sunrise-sunset.org/json?lat=${lat}&lng=${lon}&date=${actualDate}&formatted=0`
-      const sunsetResponse = await fetch(sunsetUrl, {
-        headers: {
-          "User-Agent": "Mozilla/5.0",
-        },
-      })
-
-      if (!sunsetResponse.ok) {
-        throw new Error(`Sunset API returned ${sunsetResponse.status}`)
-      }
+    // Calculate sun times locally so the planner doesn't depend on a third-party API
+    const sunTimes = getSunTimes(lat, lon, actualDate)
+    const sunStatus = getSunStatus(lat, lon, actualDate)
 
-      sunsetData = await sunsetResponse.json()
+    const isSunriseMode = walkMode === "sunrise"
+    const walkDurationMinutes = hours * 60 + minutes
 
-      if (sunsetData.status !== "OK") {
-        throw new Error("Invalid sunset data received")
-      }
-    } catch (error) {
-      console.error("Error fetching sunset data:", error)
-      throw new Error(`Failed to fetch sunset data: ${error}`)
+    // Polar day or polar night: there's no sunset (or sunrise) to plan around
+    if (sunStatus !== "normal" || !sunTimes.sunset || (isSunriseMode && !sunTimes.sunrise)) {
+      return NextResponse.json(
+        buildPolarPlan(getPolarStatus(lat, lon, actualDate), sunTimes, walkDurationMinutes, timezone, {
+          city,
+          date: actualDate,
+          walkMode: isSunriseMode ? "sunrise" : "sunset",
+          prepMinutes,
+          travelMinutes,
+        }),
+      )
     }
 
-    // Parse sunset time (in UTC)
-    const sunsetUTC = new Date(sunsetData.results.sunset)
+    const sunsetUTC = sunTimes.sunset
+    const civilTwilightEndUTC = sunTimes.civilTwilightEnd
 
-    const civilTwilightEndUTC = new Date(sunsetData.results.civil_twilight_end)
+    // Optionally cross-check against sunrise-sunset.org
+    let sunsetCrossCheck: { source: string; differenceMinutes: number } | undefined = undefined
+    if (crossCheck) {
+      const remoteSunset = await fetchRemoteSunset(lat, lon, actualDate)
+      if (remoteSunset) {
+        const differenceMinutes = Math.round((sunsetUTC.getTime() - remoteSunset.getTime()) / (1000 * 60))
+        sunsetCrossCheck = { source: "sunrise-sunset.org", differenceMinutes }
+      }
+    }
 
-    // Calculate minutes between sunset and civil twilight end
-    const minutesUntilDark = Math.round((civilTwilightEndUTC.getTime() - sunsetUTC.getTime()) / (1000 * 60))
+    // Calculate minutes between sunset and civil twilight end (it never ends during white nights)
+    const minutesUntilDark = civilTwilightEndUTC
+      ? Math.round((civilTwilightEndUTC.getTime() - sunsetUTC.getTime()) / (1000 * 60))
+      : undefined
 
     // Calculate walk duration in milliseconds
-    const walkDurationMs = (hours * 60 + minutes) * 60 * 1000
-    const walkDurationMinutes = hours * 60 + minutes
+    const walkDurationMs = walkDurationMinutes * 60 * 1000
+
+    // The moment the user considers it too dark to still be walking
+    const darknessCutoff = getDarknessCutoff(sunTimes, finishBy, toleranceMinutes)
 
-    // Calculate start time (sunset time minus walk duration)
-    const startTime = new Date(sunsetUTC.getTime() - walkDurationMs)
+    const { goldenHour, blueHour } = getGoldenHourWindows(lat, lon, actualDate, isSunriseMode ? "morning" : "evening")
+
+    // Evening walks must finish by the darkness cutoff, so start at the cutoff minus walk duration,
+    // unless the user asked to catch as much golden hour as possible or to centre the walk on sunset.
+    // Morning walks start as soon as it's light out (civil dawn, or sunrise if requested).
+    let startTime: Date
+    if (isSunriseMode) {
+      // Civil dawn doesn't happen during white nights, when it's already light by sunrise
+      startTime = (morningStart === "sunrise" ? sunTimes.sunrise : sunTimes.civilTwilightBegin || sunTimes.sunrise)!
+    } else if (schedule === "goldenHour" && goldenHour.start && goldenHour.end) {
+      startTime = getGoldenHourStart(goldenHour.start, goldenHour.end, walkDurationMs)
+    } else if (schedule === "centerOnSunset") {
+      startTime = new Date(sunsetUTC.getTime() - walkDurationMs / 2)
+    } else {
+      startTime = new Date(darknessCutoff.time.getTime() - walkDurationMs)
+    }
 
     // Calculate time until walk
     const now = new Date()
@@ -77,47 +120,52 @@ export async function POST(request: NextRequest) {
     let minutesWalkingInDark = 0
     let shouldHaveLeftBy: string | undefined = undefined
 
-    if (timeUntilWalkMs < 0 && walkDurationMinutes > 0) {
+    if (!isSunriseMode && timeUntilWalkMs < 0 && walkDurationMinutes > 0) {
       // Walk should have already started
-      // Calculate when they should have left to finish at sunset
-      shouldHaveLeftBy = startTime.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-        timeZone: timezone,
-      })
+      // Calculate when they should have left to finish by the darkness cutoff
+      shouldHaveLeftBy = formatLocalTime(startTime, timezone)
 
       // Calculate how many minutes they'll be walking in the dark if they start now
-      const timeUntilSunsetMs = sunsetUTC.getTime() - now.getTime()
-      if (timeUntilSunsetMs > 0) {
-        // Sunset hasn't happened yet
-        const minutesUntilSunset = Math.floor(timeUntilSunsetMs / (1000 * 60))
-        if (walkDurationMinutes > minutesUntilSunset) {
-          minutesWalkingInDark = walkDurationMinutes - minutesUntilSunset
+      const timeUntilCutoffMs = darknessCutoff.time.getTime() - now.getTime()
+      if (timeUntilCutoffMs > 0) {
+        // Cutoff hasn't happened yet
+        const minutesUntilCutoff = Math.floor(timeUntilCutoffMs / (1000 * 60))
+        if (walkDurationMinutes > minutesUntilCutoff) {
+          minutesWalkingInDark = walkDurationMinutes - minutesUntilCutoff
         }
       } else {
-        // Sunset has already passed
+        // Cutoff has already passed
         minutesWalkingInDark = walkDurationMinutes
       }
+    } else if (!isSunriseMode) {
+      // Golden hour and sunset-centred walks may deliberately run past the cutoff
+      const plannedEndMs = startTime.getTime() + walkDurationMs
+      const overrunMinutes = Math.round((plannedEndMs - darknessCutoff.time.getTime()) / (1000 * 60))
+      minutesWalkingInDark = Math.min(walkDurationMinutes, Math.max(0, overrunMinutes))
     }
 
     let timeUntilWalkStr = ""
-    if (timeUntilWalkMs < 0) {
+    if (timeUntilWalkMs < 0 && isSunriseMode) {
+      // Past dawn it's light until sunset; after that, the next sunrise walk is tomorrow's
+      timeUntilWalkStr =
+        now < sunsetUTC
+          ? "It's already light out, you can head out now!"
+          : "The sun has already set. Plan tomorrow's sunrise walk instead."
+    } else if (timeUntilWalkMs < 0) {
       timeUntilWalkStr = "You should have already started!"
     } else {
-      const hoursUntil = Math.floor(timeUntilWalkMs / (1000 * 60 * 60))
-      const minutesUntil = Math.floor((timeUntilWalkMs % (1000 * 60 * 60)) / (1000 * 60))
-      const daysUntil = Math.floor(hoursUntil / 24)
-
-      if (daysUntil > 0) {
-        timeUntilWalkStr = `${daysUntil} day${daysUntil > 1 ? "s" : ""} and ${hoursUntil % 24} hour${hoursUntil % 24 !== 1 ? "s" : ""}`
-      } else if (hoursUntil > 0) {
-        timeUntilWalkStr = `${hoursUntil} hour${hoursUntil > 1 ? "s" : ""} and ${minutesUntil} minute${minutesUntil !== 1 ? "s" : ""}`
-      } else {
-        timeUntilWalkStr = `${minutesUntil} minute${minutesUntil !== 1 ? "s" : ""}`
-      }
+      timeUntilWalkStr = formatTimeUntil(timeUntilWalkMs)
     }
 
+    // Moon conditions at the end of the walk, when it's darkest
+    const walkEnd = new Date(Math.max(startTime.getTime(), now.getTime()) + walkDurationMs)
+    const moon = getMoonSummary(lat, lon, actualDate, timezone, walkEnd)
+
+    // Face the sun on the way out: sunset in the evening, sunrise in the morning
+    const sunsetAzimuth = Math.round(getSunPosition(sunsetUTC, lat, lon).azimuth)
+    const sunriseAzimuth = sunTimes.sunrise ? Math.round(getSunPosition(sunTimes.sunrise, lat, lon).azimuth) : undefined
+    const walkDirection = getWalkDirection(lat, lon, startTime, walkDurationMs, timezone)
+
     const timezoneAbbr = moment.tz(timezone).zoneAbbr()
 
     console.log("[v0] Timezone from Open-Meteo:", timezone)
@@ -125,19 +173,12 @@ export async function POST(request: NextRequest) {
     console.log("[v0] DateTime object:", DateTime.now().setZone(timezone).toString())
 
     const result = {
-      sunsetTime: sunsetUTC.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-        timeZone: timezone,
-      }),
-      startTime: startTime.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-        timeZone: timezone,
-      }),
+      sunsetTime: formatLocalTime(sunsetUTC, timezone),
+      sunsetAzimuth,
+      sunsetCompass: getCompassDirection(sunsetAzimuth),
+      startTime: formatLocalTime(startTime, timezone),
       timeUntilWalk: timeUntilWalkStr,
+      ...getPreparationTimes(startTime, prepMinutes, travelMinutes, timezone),
       city,
       date: actualDate, // Return the actual date used (not "today")
       timezone: timezone, // IANA timezone name (e.g., "Asia/Seoul")
@@ -145,13 +186,29 @@ export async function POST(request: NextRequest) {
       walkDurationMinutes,
       minutesWalkingInDark: minutesWalkingInDark > 0 ? minutesWalkingInDark : undefined,
       shouldHaveLeftBy,
-      civilTwilightEnd: civilTwilightEndUTC.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-        timeZone: timezone,
-      }),
+      civilTwilightEnd: civilTwilightEndUTC ? formatLocalTime(civilTwilightEndUTC, timezone) : undefined,
       minutesUntilDark,
+      finishBy: darknessCutoff.finishBy,
+      darknessCutoff: formatLocalTime(darknessCutoff.time, timezone),
+      darknessCutoffLabel: darknessCutoff.label,
+      schedule: isSunriseMode ? "latest" : schedule,
+      goldenHour: formatLightWindow(goldenHour, timezone),
+      blueHour: formatLightWindow(blueHour, timezone),
+      walkMode: isSunriseMode ? "sunrise" : "sunset",
+      sunriseTime: sunTimes.sunrise ? formatLocalTime(sunTimes.sunrise, timezone) : undefined,
+      sunriseAzimuth,
+      sunriseCompass: sunriseAzimuth !== undefined ? getCompassDirection(sunriseAzimuth) : undefined,
+      walkDirection,
+      civilTwilightBegin: sunTimes.civilTwilightBegin
+        ? formatLocalTime(sunTimes.civilTwilightBegin, timezone)
+        : undefined,
+      minutesOfDawnLight:
+        sunTimes.sunrise && sunTimes.civilTwilightBegin
+          ? Math.round((sunTimes.sunrise.getTime() - sunTimes.civilTwilightBegin.getTime()) / (1000 * 60))
+          : undefined,
+      sunStatus,
+      moon,
+      sunsetCrossCheck,
     }
 
     return NextResponse.json(result)
@@ -163,3 +220,180 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+function buildPolarPlan(
+  sunStatus: Exclude<SunStatus, "normal">,
+  sunTimes: SunTimes,
+  walkDurationMinutes: number,
+  timezone: string,
+  details: { city: string; date: string; walkMode: string; prepMinutes: number; travelMinutes: number },
+) {
+  // With no sunset to beat, centre the walk on solar noon: the brightest (and warmest) part of the day
+  const solarNoon = sunTimes.solarNoon
+  const startTime = new Date(solarNoon.getTime() - (walkDurationMinutes * 60 * 1000) / 2)
+  const timeUntilWalkMs = startTime.getTime() - Date.now()
+
+  let sunStatusMessage: string
+  let timeUntilWalk: string
+  if (sunStatus === "midnightSun") {
+    sunStatusMessage =
+      "The sun doesn't set here on this date, so any time works! We've suggested a walk around solar noon, but you'll have daylight whenever you go."
+    timeUntilWalk = timeUntilWalkMs < 0 ? "Any time works, head out whenever you like!" : formatTimeUntil(timeUntilWalkMs)
+  } else {
+    const twilightStart = sunTimes.civilTwilightBegin || sunTimes.nauticalTwilightBegin
+    const twilightEnd = sunTimes.civilTwilightEnd || sunTimes.nauticalTwilightEnd
+    sunStatusMessage =
+      twilightStart && twilightEnd
+        ? `The sun doesn't rise here on this date. There's twilight from ${formatLocalTime(twilightStart, timezone)} to ${formatLocalTime(twilightEnd, timezone)}, brightest around solar noon, so we've centred your walk on it.`
+        : "The sun doesn't rise here on this date and it stays dark all day. We've centred your walk on solar noon; bring lights and reflective gear."
+    timeUntilWalk = timeUntilWalkMs < 0 ? "You should have already started!" : formatTimeUntil(timeUntilWalkMs)
+  }
+
+  return {
+    startTime: formatLocalTime(startTime, timezone),
+    timeUntilWalk,
+    city: details.city,
+    date: details.date,
+    timezone,
+    timezoneAbbr: moment.tz(timezone).zoneAbbr(),
+    walkDurationMinutes,
+    walkMode: details.walkMode,
+    ...getPreparationTimes(startTime, details.prepMinutes, details.travelMinutes, timezone),
+    solarNoon: formatLocalTime(solarNoon, timezone),
+    civilTwilightBegin: sunTimes.civilTwilightBegin ? formatLocalTime(sunTimes.civilTwilightBegin, timezone) : undefined,
+    civilTwilightEnd: sunTimes.civilTwilightEnd ? formatLocalTime(sunTimes.civilTwilightEnd, timezone) : undefined,
+    sunStatus,
+    sunStatusMessage,
+  }
+}
+
+// Work back from the walk start to when the user has to leave home and start getting ready
+function getPreparationTimes(startTime: Date, prepMinutes: number, travelMinutes: number, timezone: string) {
+  const prep = Math.max(0, Math.round(Number(prepMinutes) || 0))
+  const travel = Math.max(0, Math.round(Number(travelMinutes) || 0))
+
+  const leaveHomeBy = new Date(startTime.getTime() - travel * 60 * 1000)
+  const getReadyBy = new Date(leaveHomeBy.getTime() - prep * 60 * 1000)
+  const timeUntilGetReadyMs = getReadyBy.getTime() - Date.now()
+
+  return {
+    prepMinutes: prep,
+    travelMinutes: travel,
+    leaveHomeBy: formatLocalTime(leaveHomeBy, timezone),
+    getReadyBy: formatLocalTime(getReadyBy, timezone),
+    timeUntilGetReady: timeUntilGetReadyMs > 0 ? formatTimeUntil(timeUntilGetReadyMs) : undefined,
+  }
+}
+
+function getWalkDirection(lat: number, lon: number, startTime: Date, walkDurationMs: number, timezone: string) {
+  const sampleIntervalMs = 15 * 60 * 1000
+  const endMs = startTime.getTime() + walkDurationMs
+
+  // Sun position every 15 minutes through the walk window
+  const sunPath = []
+  for (let timeMs = startTime.getTime(); timeMs <= endMs; timeMs += sampleIntervalMs) {
+    const position = getSunPosition(new Date(timeMs), lat, lon)
+    sunPath.push({
+      time: formatLocalTime(new Date(timeMs), timezone),
+      azimuth: Math.round(position.azimuth),
+      compass: getCompassDirection(position.azimuth),
+      altitude: Math.round(position.altitude * 10) / 10,
+    })
+  }
+
+  // On an out-and-back walk the out-leg is the first half, so aim it at the sun's position midway through that leg
+  const turnaroundTime = new Date(startTime.getTime() + walkDurationMs / 2)
+  const outLegAzimuth = Math.round(getSunPosition(new Date(startTime.getTime() + walkDurationMs / 4), lat, lon).azimuth)
+  const outLegCompass = getCompassDirection(outLegAzimuth)
+
+  return {
+    outLegAzimuth,
+    outLegCompass,
+    turnaroundTime: formatLocalTime(turnaroundTime, timezone),
+    recommendation: `Head out toward the ${outLegCompass} (${outLegAzimuth}°) to face the sun, then turn around at ${formatLocalTime(turnaroundTime, timezone)} and walk back with it behind you.`,
+    sunPath,
+  }
+}
+
+function getMoonSummary(lat: number, lon: number, date: string, timezone: string, time: Date) {
+  const dayStart = moment.tz(date, timezone).startOf("day").toDate()
+  const { moonrise, moonset, alwaysUp } = getMoonTimes(lat, lon, dayStart)
+  const { fraction, phaseName } = getMoonIllumination(time)
+
+  const illumination = Math.round(fraction * 100)
+  const isUp = getMoonAltitude(time, lat, lon) > 0
+
+  return {
+    phaseName,
+    illumination, // Percentage of the moon's disc that's lit
+    moonrise: moonrise ? formatLocalTime(moonrise, timezone) : undefined,
+    moonset: moonset ? formatLocalTime(moonset, timezone) : undefined,
+    alwaysUp,
+    isUp,
+    // A thin crescent gives about as little light as no moon at all
+    isDarkAndMoonless: !isUp || illumination < 10,
+  }
+}
+
+// Spend as much of golden hour outside as possible: walks shorter than golden hour are centred
+// within it, longer walks cover all of it and finish as golden hour ends
+function getGoldenHourStart(goldenStart: Date, goldenEnd: Date, walkDurationMs: number): Date {
+  const goldenDurationMs = goldenEnd.getTime() - goldenStart.getTime()
+
+  if (walkDurationMs >= goldenDurationMs) {
+    return new Date(goldenEnd.getTime() - walkDurationMs)
+  }
+
+  return new Date(goldenStart.getTime() + (goldenDurationMs - walkDurationMs) / 2)
+}
+
+function formatLightWindow(window: LightWindow, timezone: string): { start: string; end: string } | undefined {
+  if (!window.start || !window.end) {
+    return undefined
+  }
+
+  return {
+    start: formatLocalTime(window.start, timezone),
+    end: formatLocalTime(window.end, timezone),
+  }
+}
+
+function formatTimeUntil(timeUntilMs: number): string {
+  const hoursUntil = Math.floor(timeUntilMs / (1000 * 60 * 60))
+  const minutesUntil = Math.floor((timeUntilMs % (1000 * 60 * 60)) / (1000 * 60))
+  const daysUntil = Math.floor(hoursUntil / 24)
+
+  if (daysUntil > 0) {
+    return `${daysUntil} day${daysUntil > 1 ? "s" : ""} and ${hoursUntil % 24} hour${hoursUntil % 24 !== 1 ? "s" : ""}`
+  } else if (hoursUntil > 0) {
+    return `${hoursUntil} hour${hoursUntil > 1 ? "s" : ""} and ${minutesUntil} minute${minutesUntil !== 1 ? "s" : ""}`
+  }
+  return `${minutesUntil} minute${minutesUntil !== 1 ? "s" : ""}`
+}
+
+async function fetchRemoteSunset(lat: number, lon: number, date: string): Promise<Date | null> {
+  try {
+    const sunsetUrl = `https://api.sunrise-sunset.org/json?lat=${lat}&lng=${lon}&date=${date}&formatted=0`
+    const sunsetResponse = await fetch(sunsetUrl, {
+      headers: {
+        "User-Agent": "Mozilla/5.0",
+      },
+    })
+
+    if (!sunsetResponse.ok) {
+      throw new Error(`Sunset API returned ${sunsetResponse.status}`)
+    }
+
+    const sunsetData = await sunsetResponse.json()
+
+    if (sunsetData.status !== "OK") {
+      throw new Error("Invalid sunset data received")
+    }
+
+    return new Date(sunsetData.results.sunset)
+  } catch (error) {
+    // The cross-check is informational only, so never fail the plan over it
+    console.error("Error fetching sunset data for cross-check:", error)
+    return null
+  }
+}
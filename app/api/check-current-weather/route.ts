@@ -1,17 +1,31 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { getCurrentConditions, compareForecastToActual, getGranularWeatherFactors } from "@/lib/mcp/weather-server"
-
-interface OutfitRecommendations {
-  outerwear: string[]
-  shoes: string[]
-  accessories: string[]
-}
+import moment from "moment-timezone"
+import {
+  getCurrentConditions,
+  compareForecastToActual,
+  getGranularWeatherFactors,
+  getPrecipitationNowcast,
+  assessWalkSafety,
+  assessSurfaceCondition,
+  getAirQuality,
+  recordForecastError,
+} from "@/lib/mcp/weather-server"
+import { fitToWardrobe, parseIntensity, parseWardrobe, recommendOutfit } from "@/lib/outfit"
 
 const COLD_TEMP_F = 40
 const COLD_TEMP_C = 4
 const HOT_TEMP_F = 75
 const HOT_TEMP_C = 24
 
+const HEAT_RISK_LABELS: Record<string, string> = {
+  caution: "caution",
+  extremeCaution: "extreme caution",
+  danger: "danger",
+}
+
+const NOWCAST_HORIZON_HOURS = 4 // The 15-minute nowcast only reaches a few hours ahead
+const BIAS_CHECK_WINDOW_MINUTES = 90 // Only checks this close to the walk say anything about the walk-time forecast
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -21,9 +35,15 @@ export async function POST(request: NextRequest) {
       forecastWeather,
       city,
       startTime,
+      date,
+      timezone,
+      walkDurationMinutes = 0,
       temperatureUnit = "fahrenheit",
       speedUnit = "mph",
       originalOutfit,
+      wardrobe,
+      comfortOffset,
+      intensity,
     } = body
 
     if (!lat || !lon || !forecastWeather || !originalOutfit) {
@@ -45,9 +65,71 @@ export async function POST(request: NextRequest) {
       tempUnit,
     })
 
+    const walkStart = parseWalkStart(date, startTime, timezone)
+
+    // Remember how far off the forecast was, so future forecasts here can be corrected
+    if (
+      forecastWeather.issuedAt &&
+      walkStart &&
+      Math.abs(moment().diff(walkStart, "minutes")) <= BIAS_CHECK_WINDOW_MINUTES
+    ) {
+      // Compare against the raw forecast, not one already corrected by past errors
+      const correction = forecastWeather.biasCorrection ?? { temperature: 0, windSpeed: 0 }
+      try {
+        await recordForecastError({
+          lat,
+          lon,
+          hour: walkStart.hour(),
+          leadTimeHours: walkStart.diff(moment(forecastWeather.issuedAt), "hours", true),
+          forecastTemp: forecastWeather.temperature - correction.temperature,
+          actualTemp: currentConditions.temperature,
+          forecastWindSpeed: forecastWeather.windSpeed - correction.windSpeed,
+          actualWindSpeed: currentConditions.windSpeed,
+          tempUnit,
+          forecastSpeedUnit: speedUnit === "kmh" ? "kmh" : "mph",
+          actualSpeedUnit: tempUnit === "celsius" ? "kmh" : "mph",
+        })
+      } catch (error) {
+        console.error("Error recording forecast error, continuing without it:", error)
+      }
+    }
+
     const granularFactors = await getGranularWeatherFactors({ lat, lon, tempUnit })
 
-    const currentWeatherOutfit = generateOutfitForCurrentConditions(currentConditions, tempUnit, speedUnit)
+    // The MCP tools report wind in km/h alongside Celsius and mph alongside Fahrenheit
+    const safety = assessWalkSafety({
+      minTemperature: currentConditions.apparentTemperature,
+      maxTemperature: currentConditions.apparentTemperature,
+      windGusts: granularFactors.windGusts,
+      weatherCodes: [currentConditions.weatherCode],
+      tempUnit,
+      speedUnit: tempUnit === "celsius" ? "kmh" : "mph",
+    })
+
+    const rainNowcast = await getRainNowcast(lat, lon, walkStart, walkDurationMinutes, timezone)
+    const airQuality = await getWalkAirQuality(lat, lon, walkStart)
+
+    let surfaceCondition = null
+    try {
+      surfaceCondition = await assessSurfaceCondition({ lat, lon })
+    } catch (error) {
+      console.error("Error assessing surface condition, continuing without it:", error)
+    }
+
+    const currentWeatherOutfit = recommendOutfit({
+      temperature: currentConditions.temperature,
+      condition: currentConditions.condition,
+      windSpeed: currentConditions.windSpeed,
+      precipitationRate: currentConditions.precipitation,
+      humidity: currentConditions.humidity,
+      visibility: granularFactors.visibilityMeters,
+      surfaceFootwear: surfaceCondition?.footwear,
+      comfortOffset: typeof comfortOffset === "number" ? comfortOffset : 0,
+      intensity: parseIntensity(intensity),
+      tempUnit,
+      speedUnit: tempUnit === "celsius" ? "kmh" : "mph",
+    })
+    const fitted = fitToWardrobe(currentWeatherOutfit, parseWardrobe(wardrobe))
 
     // Generate friendly response message
     const message = generateResponseMessage(comparison, granularFactors, currentConditions, tempUnit)
@@ -60,8 +142,13 @@ export async function POST(request: NextRequest) {
         shouldUpdate: true, // Always show the outfit check
         reasons: [], // No need for change reasons since we're showing complete outfit
       },
-      updatedOutfit: currentWeatherOutfit, // Complete outfit based on current conditions
+      updatedOutfit: fitted.outfit, // Complete outfit based on current conditions
+      missingFromWardrobe: fitted.missing,
       message,
+      rainNowcast,
+      airQuality,
+      surfaceCondition,
+      safety,
     })
   } catch (error) {
     console.error("Error checking current weather:", error)
@@ -72,104 +159,59 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function generateOutfitForCurrentConditions(
-  currentConditions: any,
-  tempUnit: string,
-  speedUnit: string,
-): OutfitRecommendations {
-  const { temperature, condition, precipitation, windSpeed } = currentConditions
-  const outerwear: string[] = []
-  const shoes: string[] = []
-  const accessories: string[] = []
-
-  const isCelsius = tempUnit === "celsius"
-  const isKmh = speedUnit === "kmh"
-
-  // Temperature thresholds based on unit
-  const HOT_TEMP = isCelsius ? 24 : 75 // 75°F = 24°C
-  const WARM_TEMP = isCelsius ? 15 : 60 // 60°F = 15°C
-  const COOL_TEMP = isCelsius ? 7 : 45 // 45°F = 7°C
-  const COLD_TEMP = isCelsius ? 0 : 32 // 32°F = 0°C
-  const VERY_COLD_TEMP = isCelsius ? 4 : 40 // 40°F = 4°C
-
-  // Wind speed thresholds based on unit
-  const WINDY_THRESHOLD = isKmh ? 24 : 15 // 15 mph = 24 km/h
-
-  // Temperature-based outerwear recommendations
-  if (temperature >= HOT_TEMP) {
-    outerwear.push("Light breathable shirt")
-    outerwear.push("Tank top or t-shirt")
-  } else if (temperature >= WARM_TEMP) {
-    outerwear.push("Light jacket")
-    outerwear.push("Long sleeve shirt")
-  } else if (temperature >= COOL_TEMP) {
-    outerwear.push("Medium jacket")
-    outerwear.push("Sweater or hoodie")
-  } else if (temperature >= COLD_TEMP) {
-    outerwear.push("Heavy coat")
-    outerwear.push("Insulated jacket")
-  } else {
-    outerwear.push("Winter coat")
-    outerwear.push("Thermal layers")
+function parseWalkStart(date?: string, startTime?: string, timezone?: string): moment.Moment | null {
+  if (!date || !startTime || !timezone) {
+    return null
   }
 
-  // Precipitation-based recommendations
-  if (precipitation > 0 || condition.toLowerCase().includes("rain")) {
-    if (precipitation > 5) {
-      outerwear.push("Rain jacket")
-      shoes.push("Waterproof boots")
-    }
-    accessories.push("Umbrella")
-  }
+  const walkStart = moment.tz(`${date} ${startTime}`, "YYYY-MM-DD h:mm A", timezone)
+  return walkStart.isValid() ? walkStart : null
+}
 
-  // Snow-based recommendations
-  if (condition.toLowerCase().includes("snow")) {
-    outerwear.push("Waterproof winter coat")
-    shoes.push("Insulated winter boots")
-    accessories.push("Winter hat")
-    accessories.push("Gloves")
-    accessories.push("Scarf")
+// Only nowcast when the walk is still ahead (or under way) and within the nowcast horizon
+async function getRainNowcast(
+  lat: number,
+  lon: number,
+  walkStart: moment.Moment | null,
+  walkDurationMinutes: number,
+  timezone: string,
+) {
+  if (!walkStart || walkDurationMinutes <= 0) {
+    return null
   }
 
-  // Wind-based recommendations
-  if (windSpeed > WINDY_THRESHOLD) {
-    outerwear.push("Windbreaker")
-    if (temperature < (isCelsius ? 10 : 50)) {
-      accessories.push("Ear warmers or hat")
-    }
+  const now = moment()
+  const walkEnd = walkStart.clone().add(walkDurationMinutes, "minutes")
+  if (walkEnd.isBefore(now) || walkStart.diff(now, "hours", true) > NOWCAST_HORIZON_HOURS) {
+    return null
   }
 
-  // Temperature-based accessories (Rule 4: below 40°F/4°C always suggest winter accessories)
-  if (temperature < VERY_COLD_TEMP) {
-    if (!accessories.includes("Winter hat") && !accessories.includes("Beanie or winter hat")) {
-      accessories.push("Winter hat")
-    }
-    if (!accessories.includes("Gloves")) {
-      accessories.push("Gloves")
-    }
-    if (!accessories.includes("Scarf")) {
-      accessories.push("Scarf")
-    }
-  }
+  // If they're already running late, nowcast the rest of the walk from now
+  const effectiveStart = moment.max(walkStart, now)
 
-  // Default shoe recommendations if not set
-  if (shoes.length === 0) {
-    if (temperature > HOT_TEMP) {
-      shoes.push("Comfortable walking shoes")
-      shoes.push("Breathable sneakers")
-    } else if (temperature > (isCelsius ? 10 : 50)) {
-      shoes.push("Walking shoes")
-      shoes.push("Athletic sneakers")
-    } else {
-      shoes.push("Closed-toe shoes")
-      shoes.push("Warm sneakers or boots")
-    }
+  try {
+    return await getPrecipitationNowcast({
+      lat,
+      lon,
+      walkStart: effectiveStart.toISOString(),
+      walkDurationMinutes: walkEnd.diff(effectiveStart, "minutes"),
+      timezone,
+    })
+  } catch (error) {
+    console.error("Error fetching rain nowcast, continuing without it:", error)
+    return null
   }
+}
 
-  return {
-    outerwear: outerwear.slice(0, 3), // Limit to top 3 recommendations
-    shoes: shoes.slice(0, 2),
-    accessories: accessories.slice(0, 4),
+// Air quality at the walk start, or right now if the walk has already started (or wasn't given)
+async function getWalkAirQuality(lat: number, lon: number, walkStart: moment.Moment | null) {
+  const time = walkStart ? moment.max(walkStart, moment()) : moment()
+
+  try {
+    return await getAirQuality({ lat, lon, time: time.toISOString() })
+  } catch (error) {
+    console.error("Error fetching air quality, continuing without it:", error)
+    return null
   }
 }
 
@@ -205,5 +247,13 @@ function generateResponseMessage(
     }
   }
 
+  // Heat index tiers matter more than humidity alone, so call them out whenever they apply
+  if (granularFactors.heatRisk !== "none") {
+    const tierLabel = HEAT_RISK_LABELS[granularFactors.heatRisk] ?? granularFactors.heatRisk
+    parts.push(
+      `Heat index is ${granularFactors.heatIndex}°${tempUnit === "celsius" ? "C" : "F"} (${tierLabel}) - bring water and take it easy.`,
+    )
+  }
+
   return parts.join(" ")
 }
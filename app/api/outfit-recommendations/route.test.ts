@@ -0,0 +1,53 @@
+import os from "os"
+import path from "path"
+import moment from "moment-timezone"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "./route"
+
+// Runs the whole route against the offline mock provider, with the network cut off
+const TOKYO = { lat: 35.68, lon: 139.69, city: "Tokyo" }
+
+function postOutfitRequest(body: Record<string, unknown>) {
+  return POST(
+    new NextRequest("http://localhost/api/outfit-recommendations", { method: "POST", body: JSON.stringify(body) }),
+  )
+}
+
+describe("POST /api/outfit-recommendations", () => {
+  const fetchMock = vi.fn(async () => {
+    throw new Error("No network in tests")
+  })
+
+  beforeEach(() => {
+    vi.stubEnv("WEATHER_PROVIDER", "mock")
+    vi.stubEnv("WEATHER_MOCK_FIXTURE", "clear")
+    vi.stubEnv("FORECAST_BIAS_FILE", path.join(os.tmpdir(), `forecast-bias-${process.pid}-missing.json`))
+    vi.stubGlobal("fetch", fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    fetchMock.mockClear()
+  })
+
+  it("plans an outfit from the mock provider without the network", async () => {
+    const response = await postOutfitRequest({
+      ...TOKYO,
+      date: moment.tz("Asia/Tokyo").add(1, "day").format("YYYY-MM-DD"),
+      startTime: "6:00 PM",
+      walkDurationMinutes: 60,
+      temperatureUnit: "celsius",
+      speedUnit: "kmh",
+    })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.weather).toMatchObject({ temperature: 12, condition: "Clear sky", precipitation: 0, windSpeed: 9 })
+    expect(body.walkForecast.hourly.map((hour: { time: string }) => hour.time)).toEqual(["6 PM"])
+    expect(body.recommendations.outerwear).toEqual(["Medium jacket", "Sweater or hoodie"])
+    expect(body.climateContext).toMatchObject({ normalTemperature: 9 })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
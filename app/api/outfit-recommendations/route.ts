@@ -1,22 +1,116 @@
 import { type NextRequest, NextResponse } from "next/server"
+import moment from "moment-timezone"
+import {
+  assessWalkSafety,
+  assessSurfaceCondition,
+  getClimateContext,
+  getForecastBias,
+  getWeatherCondition,
+} from "@/lib/mcp/weather-server"
+import { formatLocalTime } from "@/lib/utils/walk-times"
+import { getWeatherClient, type EnsembleForecast, type HourlyForecast } from "@/lib/weather"
+import {
+  fitToWardrobe,
+  parseIntensity,
+  parseWardrobe,
+  recommendOutfit,
+  type OutfitRecommendations,
+} from "@/lib/outfit"
 
 interface WeatherData {
   temperature: number
   condition: string
   precipitation: number
   windSpeed: number
+  visibility?: number // Meters
+  humidity?: number // %
+  issuedAt?: string // ISO timestamp the forecast was fetched, so a later check knows its lead time
+  biasCorrection?: { temperature: number; windSpeed: number } // Already added to the values above
 }
 
-interface OutfitRecommendations {
-  outerwear: string[]
-  shoes: string[]
-  accessories: string[]
+interface HourlyWalkForecast extends WeatherData {
+  time: string
+  weatherCode: number
+}
+
+interface WalkForecast {
+  hourly: HourlyWalkForecast[]
+  minTemperature: number
+  maxTemperature: number
+  peakWindSpeed: number
+  peakWindGusts: number
+  peakPrecipitation: number
+  minVisibility: number
+  worstCondition: string
+}
+
+interface SurfaceCondition {
+  condition: string
+  reason: string
+  footwear: string[]
+}
+
+interface ForecastBias {
+  temperature: number // Typical actual minus forecast
+  windSpeed: number
+  sampleCount: number
+  message: string | null
+}
+
+interface ClimateContext {
+  forecastTemperature: number
+  normalTemperature: number
+  temperatureAnomaly: number
+  forecastPrecipitation: number // mm over the day
+  normalPrecipitation: number // mm over the day
+  precipitationComparison: "wetter" | "drier" | "typical"
+  period: string
+  message: string
+}
+
+interface Percentiles {
+  p10: number
+  p50: number
+  p90: number
+}
+
+interface ForecastSpread {
+  temperature: Percentiles // At the walk start hour
+  precipitation: Percentiles // mm over the whole walk
+  memberCount: number
+  confidence: "high" | "medium" | "low"
+  isTemperatureSpreadWide: boolean
+  isPrecipitationSpreadWide: boolean
+}
+
+interface OptimalWindow {
+  startTime: string
+  endTime: string
+  maxPrecipitation: number
+  maxWindSpeed: number
+  message: string
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { lat, lon, date, startTime, city, temperatureUnit = "fahrenheit", speedUnit = "mph" } = body
+    const {
+      lat,
+      lon,
+      date,
+      startTime,
+      city,
+      temperatureUnit = "fahrenheit",
+      speedUnit = "mph",
+      mode = "startTime",
+      darknessCutoff,
+      walkDurationMinutes,
+      timezone,
+      includeUncertainty = false,
+      wardrobe,
+      comfortOffset,
+      intensity,
+    } = body
 
     if (!lat || !lon || !date || !startTime) {
       return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
@@ -25,42 +119,50 @@ export async function POST(request: NextRequest) {
     const tempUnitParam = temperatureUnit === "celsius" ? "celsius" : "fahrenheit"
     const speedUnitParam = speedUnit === "kmh" ? "kmh" : "mph"
 
-    // Fetch weather data from Open-Meteo API (free, no API key required)
-    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation_probability,wind_speed_10m,weather_code&temperature_unit=${tempUnitParam}&wind_speed_unit=${speedUnitParam}&timezone=auto&forecast_days=16`
-
-    const weatherResponse = await fetch(weatherUrl)
-    if (!weatherResponse.ok) {
-      throw new Error("Failed to fetch weather data")
-    }
-
-    const weatherData = await weatherResponse.json()
-
-    // Parse the start time and date to find the correct hour index
-    const targetDate = new Date(date)
-    const [time, period] = startTime.split(" ")
-    let [hours, minutes] = time.split(":").map(Number)
+    const hourly = await getWeatherClient().getHourlyForecast({
+      lat,
+      lon,
+      tempUnit: tempUnitParam,
+      speedUnit: speedUnitParam,
+      timezone,
+      days: 16,
+    })
 
-    // Convert to 24-hour format
-    if (period === "PM" && hours !== 12) hours += 12
-    if (period === "AM" && hours === 12) hours = 0
+    // The forecast's hours are local to its timezone, and so are the times the planner sends
+    const walkStart = parseTimeOnDate(date, startTime, hourly.timezone)
+    const walkEnd = new Date(walkStart.getTime() + (walkDurationMinutes || 60) * 60 * 1000)
 
     // Find the closest hour in the forecast
-    const targetDateTime = new Date(targetDate)
-    targetDateTime.setHours(hours, 0, 0, 0)
-
-    const hourlyTimes = weatherData.hourly.time
-    const targetIndex = hourlyTimes.findIndex((t: string) => {
-      const forecastTime = new Date(t)
-      return forecastTime >= targetDateTime
-    })
+    const targetHourMs = moment.tz(walkStart, hourly.timezone).startOf("hour").valueOf()
+    const targetIndex = hourly.time.findIndex((t) => parseForecastTime(t, hourly.timezone) >= targetHourMs)
 
     const index = targetIndex >= 0 ? targetIndex : 0
 
+    // Nudge the walk hours by how far off forecasts for this city have been at this time of day
+    let forecastBias: ForecastBias | undefined = undefined
+    try {
+      forecastBias =
+        (await getForecastBias({
+          lat,
+          lon,
+          hour: moment.tz(walkStart, hourly.timezone).hour(),
+          leadTimeHours: Math.max(0, (walkStart.getTime() - Date.now()) / (60 * 60 * 1000)),
+          tempUnit: tempUnitParam,
+          speedUnit: speedUnitParam,
+        })) ?? undefined
+    } catch (error) {
+      console.error("Error reading forecast bias, continuing without it:", error)
+    }
+    // Only the walk hours are corrected; the climate context and start-window scan use the forecast as issued
+    const walkHourly = forecastBias
+      ? applyForecastBias(hourly, [index, ...getWalkHourIndices(hourly, walkStart, walkEnd)], forecastBias)
+      : hourly
+
     // Extract weather data for the walk time
-    const temperature = Math.round(weatherData.hourly.temperature_2m[index])
-    const precipitation = weatherData.hourly.precipitation_probability[index]
-    const windSpeed = Math.round(weatherData.hourly.wind_speed_10m[index])
-    const weatherCode = weatherData.hourly.weather_code[index]
+    const temperature = Math.round(walkHourly.temperature[index])
+    const precipitation = walkHourly.precipitationProbability[index]
+    const windSpeed = Math.round(walkHourly.windSpeed[index])
+    const weatherCode = walkHourly.weatherCode[index]
 
     const condition = getWeatherCondition(weatherCode)
 
@@ -69,13 +171,119 @@ export async function POST(request: NextRequest) {
       condition,
       precipitation,
       windSpeed,
+      issuedAt: new Date().toISOString(),
+      biasCorrection: forecastBias && { temperature: forecastBias.temperature, windSpeed: forecastBias.windSpeed },
+    }
+
+    // Look at every forecast hour the walk overlaps, not just the first one
+    const walkForecast = getWalkForecast(walkHourly, walkStart, walkEnd, index)
+
+    // What the ground will be like underfoot, from the hours leading up to the walk
+    let surfaceCondition: SurfaceCondition | undefined = undefined
+    try {
+      surfaceCondition = await assessSurfaceCondition({ lat, lon, time: walkStart.toISOString() })
+    } catch (error) {
+      console.error("Error assessing surface condition, continuing without it:", error)
+    }
+
+    // Dress for the worst conditions during the walk, not the start
+    const worstCaseWeather = getWorstCaseWeather(walkForecast, tempUnitParam)
+    const recommendations = recommendOutfit({
+      temperature: worstCaseWeather.temperature,
+      condition: worstCaseWeather.condition,
+      windSpeed: worstCaseWeather.windSpeed,
+      precipitationChance: worstCaseWeather.precipitation,
+      humidity: worstCaseWeather.humidity,
+      visibility: worstCaseWeather.visibility,
+      surfaceFootwear: surfaceCondition?.footwear,
+      comfortOffset: typeof comfortOffset === "number" ? comfortOffset : 0,
+      intensity: parseIntensity(intensity),
+      tempUnit: tempUnitParam,
+      speedUnit: speedUnitParam,
+    })
+
+    // Optionally ask the ensemble how much the forecast could be off, and pack for the plausible extremes
+    let forecastSpread: ForecastSpread | undefined = undefined
+    if (includeUncertainty) {
+      try {
+        const ensemble = await getWeatherClient().getEnsembleForecast({
+          lat,
+          lon,
+          tempUnit: tempUnitParam,
+          timezone,
+          days: 16,
+        })
+        forecastSpread = getForecastSpread(ensemble, walkStart, walkEnd, tempUnitParam)
+      } catch (error) {
+        console.error("Error fetching ensemble forecast, continuing without it:", error)
+      }
+
+      if (forecastSpread) {
+        addJustInCaseLayers(recommendations, forecastSpread, tempUnitParam)
+      }
     }
 
-    const recommendations = generateOutfitRecommendations(weather, tempUnitParam, speedUnitParam)
+    // How the day compares with what's normal for this time of year
+    let climateContext: ClimateContext | undefined = undefined
+    const dayIndices = hourly.time.flatMap((t, i) => (t.startsWith(date) ? [i] : []))
+    if (dayIndices.length > 0) {
+      try {
+        climateContext = await getClimateContext({
+          lat,
+          lon,
+          date,
+          forecastTemperature: dayIndices.reduce((sum, i) => sum + hourly.temperature[i], 0) / dayIndices.length,
+          forecastPrecipitation: dayIndices.reduce((sum, i) => sum + hourly.precipitation[i], 0),
+          tempUnit: tempUnitParam,
+        })
+      } catch (error) {
+        console.error("Error fetching climate context, continuing without it:", error)
+      }
+    }
+
+    // Some conditions make the walk a bad idea whatever you wear
+    const safety = assessWalkSafety({
+      minTemperature: walkForecast.minTemperature,
+      maxTemperature: walkForecast.maxTemperature,
+      windGusts: walkForecast.peakWindGusts,
+      weatherCodes: walkForecast.hourly.map((hour) => hour.weatherCode),
+      tempUnit: tempUnitParam,
+      speedUnit: speedUnitParam,
+    })
+
+    // Optionally scan the afternoon for the start time with the best weather that still finishes before dark
+    let optimalWindow: OptimalWindow | undefined = undefined
+    if (mode === "optimalWindow" && darknessCutoff && walkDurationMinutes) {
+      // A cutoff after local midnight (white nights, late tolerances) is on the next day
+      let cutoff = parseTimeOnDate(date, darknessCutoff, hourly.timezone)
+      if (walkStart.getTime() - cutoff.getTime() > 12 * 60 * 60 * 1000) {
+        cutoff = moment(cutoff).add(1, "day").toDate()
+      }
+
+      optimalWindow = findOptimalWindow(
+        hourly,
+        walkStart,
+        cutoff,
+        walkDurationMinutes,
+        tempUnitParam,
+        speedUnitParam,
+      )
+    }
+
+    // Swap generic items for the walker's own clothes, once everything (just-in-case layers too) is decided
+    const fitted = fitToWardrobe(recommendations, parseWardrobe(wardrobe))
 
     return NextResponse.json({
       weather,
-      recommendations,
+      walkForecast,
+      recommendations: fitted.outfit,
+      missingFromWardrobe: fitted.missing,
+      optimalWindow,
+      safety,
+      forecastSpread,
+      surfaceCondition,
+      climateContext,
+      forecastBias,
     })
   } catch (error) {
     console.error("Error fetching outfit recommendations:", error)
@@ -86,119 +294,299 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function getWeatherCondition(code: number): string {
-  // WMO Weather interpretation codes
-  if (code === 0) return "Clear sky"
-  if (code <= 3) return "Partly cloudy"
-  if (code <= 48) return "Foggy"
-  if (code <= 67) return "Rainy"
-  if (code <= 77) return "Snowy"
-  if (code <= 82) return "Rain showers"
-  if (code <= 86) return "Snow showers"
-  if (code <= 99) return "Thunderstorm"
-  return "Partly cloudy"
+function getWalkHourIndices(
+  hourly: Pick<HourlyForecast, "time" | "timezone">,
+  walkStart: Date,
+  walkEnd: Date,
+): number[] {
+  const hourMs = 60 * 60 * 1000
+  const indices: number[] = []
+
+  hourly.time.forEach((t: string, index: number) => {
+    const hourStart = parseForecastTime(t, hourly.timezone)
+    if (hourStart + hourMs > walkStart.getTime() && hourStart < walkEnd.getTime()) {
+      indices.push(index)
+    }
+  })
+
+  return indices
+}
+
+function applyForecastBias(hourly: HourlyForecast, indices: number[], bias: ForecastBias): HourlyForecast {
+  const corrected = { ...hourly, temperature: [...hourly.temperature], windSpeed: [...hourly.windSpeed] }
+  for (const i of new Set(indices)) {
+    corrected.temperature[i] += bias.temperature
+    corrected.windSpeed[i] = Math.max(0, corrected.windSpeed[i] + bias.windSpeed)
+  }
+  return corrected
+}
+
+function getWalkForecast(
+  hourly: HourlyForecast,
+  walkStart: Date,
+  walkEnd: Date,
+  fallbackIndex: number,
+): WalkForecast {
+  const walkIndices = getWalkHourIndices(hourly, walkStart, walkEnd)
+  const indices = walkIndices.length > 0 ? walkIndices : [fallbackIndex]
+
+  const hours: HourlyWalkForecast[] = indices.map((i) => ({
+    time: moment.tz(hourly.time[i], hourly.timezone).format("h A"),
+    temperature: Math.round(hourly.temperature[i]),
+    condition: getWeatherCondition(hourly.weatherCode[i]),
+    precipitation: hourly.precipitationProbability[i] ?? 0,
+    windSpeed: Math.round(hourly.windSpeed[i]),
+    humidity: hourly.humidity[i],
+    weatherCode: hourly.weatherCode[i],
+  }))
+
+  // Higher WMO codes are generally more severe (fog < rain < snow < thunderstorm)
+  const worstCode = Math.max(...indices.map((i) => hourly.weatherCode[i]))
+
+  return {
+    hourly: hours,
+    minTemperature: Math.min(...hours.map((h) => h.temperature)),
+    maxTemperature: Math.max(...hours.map((h) => h.temperature)),
+    peakWindSpeed: Math.max(...hours.map((h) => h.windSpeed)),
+    peakWindGusts: Math.max(...indices.map((i) => hourly.windGusts[i])),
+    peakPrecipitation: Math.max(...hours.map((h) => h.precipitation)),
+    minVisibility: Math.min(...indices.map((i) => hourly.visibility[i] ?? Number.POSITIVE_INFINITY)),
+    worstCondition: getWeatherCondition(worstCode),
+  }
+}
+
+function getWorstCaseWeather(walkForecast: WalkForecast, tempUnit: string): WeatherData {
+  const VERY_HOT = tempUnit === "celsius" ? 24 : 75 // 75°F = 24°C
+  const hottestHour = walkForecast.hourly.reduce((hottest, hour) =>
+    hour.temperature > hottest.temperature ? hour : hottest,
+  )
+
+  return {
+    // Cold is the usual risk on an evening walk, unless it's hot enough that heat is the bigger concern
+    temperature: walkForecast.maxTemperature >= VERY_HOT ? walkForecast.maxTemperature : walkForecast.minTemperature,
+    condition: walkForecast.worstCondition,
+    precipitation: walkForecast.peakPrecipitation,
+    windSpeed: walkForecast.peakWindSpeed,
+    visibility: walkForecast.minVisibility,
+    humidity: hottestHour.humidity,
+  }
+}
+
+function getForecastSpread(
+  ensemble: EnsembleForecast,
+  walkStart: Date,
+  walkEnd: Date,
+  tempUnit: string,
+): ForecastSpread | undefined {
+  const indices = getWalkHourIndices(ensemble, walkStart, walkEnd)
+  if (indices.length === 0) {
+    return undefined
+  }
+
+  const startTemperatures = ensemble.temperature.map((member) => member[indices[0]]).filter(Number.isFinite)
+  const walkPrecipitation = ensemble.precipitation
+    .map((member) => indices.reduce((total, i) => total + (member[i] || 0), 0))
+    .filter(Number.isFinite)
+
+  if (startTemperatures.length === 0) {
+    return undefined
+  }
+
+  const temperature = getPercentiles(startTemperatures)
+  const precipitation = getPercentiles(walkPrecipitation)
+
+  // Spread thresholds (p90 - p10)
+  const WIDE_TEMP_SPREAD = tempUnit === "celsius" ? 5 : 9 // 9°F = 5°C
+  const MEDIUM_TEMP_SPREAD = tempUnit === "celsius" ? 2.5 : 4.5 // 4.5°F = 2.5°C
+  const WET_MM = 1 // Enough rain over the walk to get properly wet
+  const DAMP_MM = 0.2
+
+  const temperatureSpread = temperature.p90 - temperature.p10
+  const isTemperatureSpreadWide = temperatureSpread >= WIDE_TEMP_SPREAD
+
+  // Members disagree about rain when some are wet and the middle of the pack is dry
+  const isPrecipitationSpreadWide = precipitation.p90 >= WET_MM && precipitation.p50 < WET_MM
+  const isPrecipitationUncertain = precipitation.p90 >= DAMP_MM && precipitation.p10 < DAMP_MM
+
+  let confidence: ForecastSpread["confidence"] = "high"
+  if (isTemperatureSpreadWide || isPrecipitationSpreadWide) {
+    confidence = "low"
+  } else if (temperatureSpread >= MEDIUM_TEMP_SPREAD || isPrecipitationUncertain) {
+    confidence = "medium"
+  }
+
+  return {
+    temperature: roundPercentiles(temperature, 0),
+    precipitation: roundPercentiles(precipitation, 1),
+    memberCount: startTemperatures.length,
+    confidence,
+    isTemperatureSpreadWide,
+    isPrecipitationSpreadWide,
+  }
+}
+
+function getPercentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b)
+
+  // Linear interpolation between the closest ranks
+  const percentile = (p: number) => {
+    const rank = (sorted.length - 1) * p
+    const lower = Math.floor(rank)
+    const upper = Math.ceil(rank)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+  }
+
+  return { p10: percentile(0.1), p50: percentile(0.5), p90: percentile(0.9) }
+}
+
+function roundPercentiles({ p10, p50, p90 }: Percentiles, decimals: number): Percentiles {
+  const factor = Math.pow(10, decimals)
+  const round = (value: number) => Math.round(value * factor) / factor
+  return { p10: round(p10), p50: round(p50), p90: round(p90) }
+}
+
+// When the ensemble can't agree, bring a layer for the colder or wetter outcome
+function addJustInCaseLayers(recommendations: OutfitRecommendations, spread: ForecastSpread, tempUnit: string) {
+  const tempSymbol = tempUnit === "celsius" ? "°C" : "°F"
+
+  if (spread.isTemperatureSpreadWide) {
+    recommendations.outerwear.push(
+      `Packable extra layer (just in case it's as cold as ${spread.temperature.p10}${tempSymbol})`,
+    )
+  }
+
+  const hasRainGear = [...recommendations.outerwear, ...recommendations.accessories].some(
+    (item) => item.toLowerCase().includes("rain jacket") || item === "Umbrella",
+  )
+  if (spread.isPrecipitationSpreadWide && !hasRainGear) {
+    recommendations.accessories.push("Packable rain jacket (just in case)")
+  }
+}
+
+// Parses a "h:mm AM" time on a "YYYY-MM-DD" date in the location's timezone
+function parseTimeOnDate(date: string, time12h: string, timezone: string): Date {
+  // toLocaleTimeString can put a narrow no-break space before AM/PM
+  return moment.tz(`${date} ${time12h.replace(/\s+/g, " ")}`, "YYYY-MM-DD h:mm A", timezone).toDate()
 }
 
-function generateOutfitRecommendations(
-  weather: WeatherData,
-  tempUnit = "fahrenheit",
-  speedUnit = "mph",
-): OutfitRecommendations {
-  const { temperature, condition, precipitation, windSpeed } = weather
-  const outerwear: string[] = []
-  const shoes: string[] = []
-  const accessories: string[] = []
+// Forecast hours are "YYYY-MM-DDTHH:mm", local to the forecast's timezone
+function parseForecastTime(time: string, timezone: string): number {
+  return moment.tz(time, timezone).valueOf()
+}
 
+function findOptimalWindow(
+  hourly: HourlyForecast,
+  plannedStart: Date,
+  cutoff: Date,
+  walkDurationMinutes: number,
+  tempUnit: string,
+  speedUnit: string,
+): OptimalWindow | undefined {
   const isCelsius = tempUnit === "celsius"
-  const isKmh = speedUnit === "kmh"
-
-  // Temperature thresholds (Fahrenheit / Celsius)
-  const VERY_HOT = isCelsius ? 24 : 75 // 75°F = 24°C
-  const WARM = isCelsius ? 15 : 60 // 60°F = 15°C
-  const COOL = isCelsius ? 7 : 45 // 45°F = 7°C
-  const COLD = isCelsius ? 0 : 32 // 32°F = 0°C
-
-  // Wind speed threshold (mph / km/h)
-  const WINDY = isKmh ? 24 : 15 // 15 mph = 24 km/h
-
-  // Temperature-based outerwear recommendations
-  if (temperature >= VERY_HOT) {
-    outerwear.push("Light breathable shirt")
-    outerwear.push("Tank top or t-shirt")
-  } else if (temperature >= WARM) {
-    outerwear.push("Light jacket")
-    outerwear.push("Long sleeve shirt")
-  } else if (temperature >= COOL) {
-    outerwear.push("Medium jacket")
-    outerwear.push("Sweater or hoodie")
-  } else if (temperature >= COLD) {
-    outerwear.push("Heavy coat")
-    outerwear.push("Insulated jacket")
-  } else {
-    outerwear.push("Winter coat")
-    outerwear.push("Thermal layers")
-  }
-
-  // Precipitation-based recommendations
-  if (precipitation > 50 || condition.toLowerCase().includes("rain")) {
-    outerwear.push("Rain jacket")
-    shoes.push("Waterproof boots")
-    accessories.push("Umbrella")
-  } else if (precipitation > 20) {
-    accessories.push("Light rain jacket (just in case)")
-  }
-
-  // Snow-based recommendations
-  if (condition.toLowerCase().includes("snow")) {
-    outerwear.push("Waterproof winter coat")
-    shoes.push("Insulated winter boots")
-    accessories.push("Winter hat")
-    accessories.push("Gloves")
-    accessories.push("Scarf")
-  }
-
-  // Wind-based recommendations
-  if (windSpeed > WINDY) {
-    outerwear.push("Windbreaker")
-    const COOL_TEMP = isCelsius ? 10 : 50 // 50°F = 10°C
-    if (temperature < COOL_TEMP) {
-      accessories.push("Ear warmers or hat")
-    }
+  const WINDY = speedUnit === "kmh" ? 24 : 15 // 15 mph = 24 km/h
+  const COMFORT_MIN = isCelsius ? 10 : 50 // 50°F = 10°C
+  const COMFORT_MAX = isCelsius ? 24 : 75 // 75°F = 24°C
+
+  const stepMs = 15 * 60 * 1000
+  const walkDurationMs = walkDurationMinutes * 60 * 1000
+  const latestStartMs = cutoff.getTime() - walkDurationMs
+
+  // Start scanning mid-afternoon (3 PM) on the walk's day, or earlier if the walk is long enough that it has to
+  // start before then
+  const scanStart = moment.tz(plannedStart, hourly.timezone).set({ hour: 15, minute: 0, second: 0, millisecond: 0 })
+  const earliestStartMs = Math.min(scanStart.valueOf(), latestStartMs)
+
+  // Every quarter hour, plus the planned start and the last moment to leave, which rarely fall on the grid
+  const candidates = new Set<number>([latestStartMs])
+  for (let startMs = earliestStartMs; startMs < latestStartMs; startMs += stepMs) {
+    candidates.add(startMs)
   }
+  if (plannedStart.getTime() <= latestStartMs) {
+    candidates.add(plannedStart.getTime())
+  }
+
+  const hourlyTimes = hourly.time.map((t) => parseForecastTime(t, hourly.timezone))
+
+  let best: { startMs: number; score: number; maxPrecipitation: number; maxWindSpeed: number } | undefined
+
+  for (const startMs of [...candidates].sort((a, b) => a - b)) {
+    const indices = getWalkHourIndices(hourly, new Date(startMs), new Date(startMs + walkDurationMs))
+    if (indices.length === 0) continue
 
-  // Temperature-based accessories
-  const CHILLY = isCelsius ? 4 : 40 // 40°F = 4°C
-  if (temperature < CHILLY && !accessories.includes("Winter hat")) {
-    accessories.push("Beanie or winter hat")
-    if (!accessories.includes("Gloves")) {
-      accessories.push("Gloves")
+    const maxPrecipitation = Math.max(...indices.map((i) => hourly.precipitationProbability[i] ?? 0))
+    const maxWindSpeed = Math.round(Math.max(...indices.map((i) => hourly.windSpeed[i] ?? 0)))
+    const temperatures = indices.map((i) => hourly.temperature[i])
+    const tooCold = Math.max(0, COMFORT_MIN - Math.min(...temperatures))
+    const tooHot = Math.max(0, Math.max(...temperatures) - COMFORT_MAX)
+
+    // Rain matters most, then strong wind, then uncomfortable temperatures
+    const score = maxPrecipitation + Math.max(0, maxWindSpeed - WINDY) * 3 + (tooCold + tooHot) * (isCelsius ? 3 : 2)
+
+    // On ties keep the planned start, otherwise prefer later starts so the walk stays close to golden hour
+    if (!best || score < best.score || (score === best.score && best.startMs !== plannedStart.getTime())) {
+      best = { startMs, score, maxPrecipitation, maxWindSpeed }
     }
   }
 
-  const HOT = isCelsius ? 21 : 70 // 70°F = 21°C
-  if (temperature > HOT && condition.toLowerCase().includes("clear")) {
-    accessories.push("Sunglasses")
-    accessories.push("Sun hat")
-    accessories.push("Sunscreen")
-  }
-
-  // Default shoe recommendations if not set
-  if (shoes.length === 0) {
-    if (temperature > VERY_HOT) {
-      shoes.push("Comfortable walking shoes")
-      shoes.push("Breathable sneakers")
-    } else if (temperature > COOL) {
-      shoes.push("Walking shoes")
-      shoes.push("Athletic sneakers")
-    } else {
-      shoes.push("Closed-toe shoes")
-      shoes.push("Warm sneakers or boots")
-    }
+  if (!best) {
+    return undefined
+  }
+
+  const bestStart = formatLocalTime(new Date(best.startMs), hourly.timezone)
+  const bestEnd = formatLocalTime(new Date(best.startMs + walkDurationMs), hourly.timezone)
+  const rainPeriods = getRainPeriods(hourly, hourlyTimes, earliestStartMs, cutoff.getTime())
+
+  let message: string
+  if (best.startMs === plannedStart.getTime()) {
+    message =
+      rainPeriods.length > 0
+        ? `Rain likely ${rainPeriods.join(", ")}, but your planned start time already has the best weather before dark.`
+        : "Your planned start time already has the best weather before dark."
+  } else if (rainPeriods.length > 0) {
+    message = `Rain likely ${rainPeriods.join(", ")}; leaving at ${bestStart} keeps you ${
+      best.maxPrecipitation < 50 ? "dry" : "as dry as possible"
+    } and still finishes before dark.`
+  } else {
+    message = `Leaving at ${bestStart} gives you the best weather and still finishes before dark.`
   }
 
   return {
-    outerwear: outerwear.slice(0, 3), // Limit to top 3 recommendations
-    shoes: shoes.slice(0, 2),
-    accessories: accessories.slice(0, 4),
+    startTime: bestStart,
+    endTime: bestEnd,
+    maxPrecipitation: best.maxPrecipitation,
+    maxWindSpeed: best.maxWindSpeed,
+    message,
+  }
+}
+
+// Groups consecutive hours with a likely chance of rain into labels like "6–7 PM"
+function getRainPeriods(hourly: HourlyForecast, hourlyTimes: number[], fromMs: number, toMs: number): string[] {
+  const hourMs = 60 * 60 * 1000
+  const periods: string[] = []
+  let periodStart: number | null = null
+  let periodEnd = 0
+
+  hourlyTimes.forEach((t, index) => {
+    const isRainy = t + hourMs > fromMs && t < toMs && (hourly.precipitationProbability[index] ?? 0) >= 50
+
+    if (isRainy) {
+      if (periodStart === null) periodStart = t
+      periodEnd = t + hourMs
+    } else if (periodStart !== null) {
+      periods.push(formatHourRange(new Date(periodStart), new Date(periodEnd), hourly.timezone))
+      periodStart = null
+    }
+  })
+
+  if (periodStart !== null) {
+    periods.push(formatHourRange(new Date(periodStart), new Date(periodEnd), hourly.timezone))
   }
+
+  return periods
+}
+
+function formatHourRange(start: Date, end: Date, timezone: string): string {
+  const [startHour, startPeriod] = moment.tz(start, timezone).format("h A").split(" ")
+  const endLabel = moment.tz(end, timezone).format("h A")
+  return endLabel.endsWith(startPeriod) ? `${startHour}–${endLabel}` : `${startHour} ${startPeriod}–${endLabel}`
 }
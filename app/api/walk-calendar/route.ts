@@ -0,0 +1,145 @@
+import { type NextRequest, NextResponse } from "next/server"
+import moment from "moment-timezone"
+import { getWeatherCondition } from "@/lib/mcp/weather-server"
+import { getSunTimes, getSunStatus, getPolarStatus } from "@/lib/utils/solar"
+import { getDarknessCutoff, formatLocalTime } from "@/lib/utils/walk-times"
+import { getWeatherClient, type HourlyForecast } from "@/lib/weather"
+
+const MAX_CALENDAR_DAYS = 60
+
+interface ForecastSummary {
+  temperature: number
+  condition: string
+  precipitation: number
+  windSpeed: number
+}
+
+interface CalendarDay {
+  date: string
+  sunStatus: string
+  sunsetTime?: string
+  latestDeparture?: string
+  civilTwilightEnd?: string
+  forecast?: ForecastSummary
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const {
+      lat,
+      lon,
+      startDate,
+      endDate,
+      hours = 0,
+      minutes = 0,
+      finishBy = "sunset",
+      toleranceMinutes = 0,
+      temperatureUnit = "fahrenheit",
+      speedUnit = "mph",
+    } = body
+
+    if (!lat || !lon || !startDate || !endDate) {
+      return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
+    }
+
+    const start = moment.utc(startDate, "YYYY-MM-DD", true)
+    const end = moment.utc(endDate, "YYYY-MM-DD", true)
+
+    if (!start.isValid() || !end.isValid() || end.isBefore(start)) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 })
+    }
+
+    const dayCount = end.diff(start, "days") + 1
+    if (dayCount > MAX_CALENDAR_DAYS) {
+      return NextResponse.json({ error: `Date range cannot exceed ${MAX_CALENDAR_DAYS} days` }, { status: 400 })
+    }
+
+    const tempUnitParam = temperatureUnit === "celsius" ? "celsius" : "fahrenheit"
+    const speedUnitParam = speedUnit === "kmh" ? "kmh" : "mph"
+
+    // Every time in the calendar is local, so without the timezone there's nothing honest to show
+    let timezone: string
+    try {
+      timezone = await getWeatherClient().getTimezone(lat, lon)
+    } catch (error) {
+      console.error("Error looking up calendar timezone:", error)
+      return NextResponse.json({ error: "Could not determine the local timezone for this location" }, { status: 502 })
+    }
+
+    // Up to 16 days of hourly weather; the calendar still works without it
+    let hourly: HourlyForecast | null = null
+    try {
+      hourly = await getWeatherClient().getHourlyForecast({
+        lat,
+        lon,
+        tempUnit: tempUnitParam,
+        speedUnit: speedUnitParam,
+        timezone,
+        days: 16,
+      })
+    } catch (error) {
+      console.error("Error fetching calendar forecast, continuing without weather:", error)
+    }
+
+    const walkDurationMinutes = hours * 60 + minutes
+    const days: CalendarDay[] = []
+
+    for (let i = 0; i < dayCount; i++) {
+      const date = start.clone().add(i, "days").format("YYYY-MM-DD")
+      const sunTimes = getSunTimes(lat, lon, date)
+      const sunStatus = getSunStatus(lat, lon, date)
+
+      if (sunStatus !== "normal" || !sunTimes.sunset) {
+        days.push({ date, sunStatus: getPolarStatus(lat, lon, date) })
+        continue
+      }
+
+      const darknessCutoff = getDarknessCutoff(sunTimes, finishBy, toleranceMinutes)
+      const latestDeparture = new Date(darknessCutoff.time.getTime() - walkDurationMinutes * 60 * 1000)
+
+      days.push({
+        date,
+        sunStatus,
+        sunsetTime: formatLocalTime(sunTimes.sunset, timezone),
+        latestDeparture: formatLocalTime(latestDeparture, timezone),
+        civilTwilightEnd: sunTimes.civilTwilightEnd ? formatLocalTime(sunTimes.civilTwilightEnd, timezone) : undefined,
+        forecast: getForecastAt(hourly, latestDeparture, timezone),
+      })
+    }
+
+    return NextResponse.json({
+      timezone,
+      timezoneAbbr: moment.tz(timezone).zoneAbbr(),
+      walkDurationMinutes,
+      days,
+    })
+  } catch (error) {
+    console.error("Error building walk calendar:", error)
+    return NextResponse.json(
+      { error: `Failed to build walk calendar: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 },
+    )
+  }
+}
+
+// Hourly forecast times are local to the city (e.g. "2025-10-19T17:00"), so match on the local hour
+function getForecastAt(hourly: HourlyForecast | null, time: Date, timezone: string): ForecastSummary | undefined {
+  if (!hourly) {
+    return undefined
+  }
+
+  const localHour = moment(time).tz(timezone).format("YYYY-MM-DDTHH:00")
+  const index = hourly.time.indexOf(localHour)
+
+  if (index < 0) {
+    return undefined
+  }
+
+  return {
+    temperature: Math.round(hourly.temperature[index]),
+    condition: getWeatherCondition(hourly.weatherCode[index]),
+    precipitation: hourly.precipitationProbability[index],
+    windSpeed: Math.round(hourly.windSpeed[index]),
+  }
+}
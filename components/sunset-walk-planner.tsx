@@ -22,14 +22,64 @@ import {
   Star,
   Sun,
   RefreshCw,
+  Compass,
+  AlertTriangle,
+  Shirt,
 } from "lucide-react"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
-import { getTemperatureUnit, getSpeedUnit, formatTemperature, formatSpeed } from "@/lib/utils/locale"
+import {
+  getTemperatureUnit,
+  getSpeedUnit,
+  formatTemperature,
+  formatSpeed,
+  formatVisibility,
+  formatReading,
+} from "@/lib/utils/locale"
 import moment from "moment-timezone"
+import { WardrobeEditor, loadWardrobe, saveWardrobe } from "@/components/wardrobe-editor"
+import type { WardrobeItem } from "@/lib/outfit"
+import { WALK_INTENSITY_OPTIONS, describeIntensityWarming, type WalkIntensity } from "@/lib/outfit/intensity"
+import {
+  applyComfortRating,
+  describeComfortOffset,
+  loadComfortProfile,
+  saveComfortProfile,
+  type ComfortProfile,
+  type ComfortRating,
+} from "@/lib/utils/comfort"
 
 type Step = "city" | "cityConfirmed" | "planWalk" | "result"
 
+const COMFORT_RATING_OPTIONS: { value: ComfortRating; label: string }[] = [
+  { value: "tooCold", label: "Too cold" },
+  { value: "justRight", label: "Just right" },
+  { value: "tooWarm", label: "Too warm" },
+]
+
+type WalkMode = "sunset" | "sunrise"
+
+type SunStatus = "normal" | "midnightSun" | "polarNight"
+
+type MorningStart = "civilDawn" | "sunrise"
+
+type FinishBy = "sunset" | "civilTwilight" | "nauticalTwilight" | "custom"
+
+type Schedule = "latest" | "goldenHour" | "centerOnSunset"
+
+const SCHEDULE_OPTIONS: { value: Schedule; label: string }[] = [
+  { value: "latest", label: "Latest departure" },
+  { value: "goldenHour", label: "Catch golden hour" },
+  { value: "centerOnSunset", label: "Centre on sunset" },
+]
+
+const FINISH_BY_OPTIONS: { value: FinishBy; label: string }[] = [
+  { value: "sunset", label: "Sunset" },
+  { value: "civilTwilight", label: "End of civil twilight" },
+  { value: "nauticalTwilight", label: "End of nautical twilight" },
+  { value: "custom", label: "Sunset + custom minutes" },
+]
+
 interface CityOption {
   name: string
   country: string
@@ -39,9 +89,16 @@ interface CityOption {
 }
 
 interface WalkPlan {
-  sunsetTime: string
+  sunsetTime?: string
+  sunsetAzimuth?: number
+  sunsetCompass?: string
   startTime: string
   timeUntilWalk: string
+  prepMinutes?: number
+  travelMinutes?: number
+  leaveHomeBy?: string
+  getReadyBy?: string
+  timeUntilGetReady?: string
   city: string
   date: string
   timezone?: string
@@ -51,17 +108,119 @@ interface WalkPlan {
   shouldHaveLeftBy?: string
   civilTwilightEnd?: string
   minutesUntilDark?: number
+  finishBy?: FinishBy
+  darknessCutoff?: string
+  darknessCutoffLabel?: string
+  schedule?: Schedule
+  goldenHour?: { start: string; end: string }
+  blueHour?: { start: string; end: string }
+  walkMode?: WalkMode
+  sunriseTime?: string
+  sunriseAzimuth?: number
+  sunriseCompass?: string
+  walkDirection?: {
+    outLegAzimuth: number
+    outLegCompass: string
+    turnaroundTime: string
+    recommendation: string
+    sunPath: { time: string; azimuth: number; compass: string; altitude: number }[]
+  }
+  civilTwilightBegin?: string
+  minutesOfDawnLight?: number
+  sunStatus?: SunStatus
+  sunStatusMessage?: string
+  solarNoon?: string
+  moon?: {
+    phaseName: string
+    illumination: number
+    moonrise?: string
+    moonset?: string
+    alwaysUp: boolean
+    isUp: boolean
+    isDarkAndMoonless: boolean
+  }
   weather?: {
     temperature: number
     condition: string
     precipitation: number
     windSpeed: number
+    issuedAt?: string
+    biasCorrection?: { temperature: number; windSpeed: number }
   }
   outfitRecommendations?: {
     outerwear: string[]
     shoes: string[]
     accessories: string[]
   }
+  walkForecast?: {
+    hourly: { time: string; temperature: number; condition: string; precipitation: number; windSpeed: number }[]
+    minTemperature: number
+    maxTemperature: number
+    peakWindSpeed: number
+    peakPrecipitation: number
+    worstCondition: string
+  }
+  optimalWindow?: {
+    startTime: string
+    endTime: string
+    maxPrecipitation: number
+    maxWindSpeed: number
+    message: string
+  }
+  safety?: WalkSafety
+  forecastSpread?: {
+    temperature: { p10: number; p50: number; p90: number }
+    precipitation: { p10: number; p50: number; p90: number }
+    memberCount: number
+    confidence: "high" | "medium" | "low"
+  }
+  surfaceCondition?: SurfaceCondition
+  climateContext?: {
+    temperatureAnomaly: number
+    precipitationComparison: "wetter" | "drier" | "typical"
+    message: string
+  }
+  forecastBias?: {
+    temperature: number
+    windSpeed: number
+    sampleCount: number
+    message: string | null
+  }
+  missingFromWardrobe?: string[]
+}
+
+interface SurfaceCondition {
+  condition: "dry" | "wet" | "slushy" | "icyRisk" | "packedSnow"
+  reason: string
+  footwear: string[]
+}
+
+const SURFACE_LABELS: Record<SurfaceCondition["condition"], string> = {
+  dry: "Dry",
+  wet: "Wet",
+  slushy: "Slushy",
+  icyRisk: "Icy risk",
+  packedSnow: "Packed snow",
+}
+
+interface WalkSafety {
+  recommended: boolean
+  status: "go" | "notRecommended"
+  reasons: string[]
+}
+
+interface WalkCalendarDay {
+  date: string
+  sunStatus: SunStatus
+  sunsetTime?: string
+  latestDeparture?: string
+  civilTwilightEnd?: string
+  forecast?: {
+    temperature: number
+    condition: string
+    precipitation: number
+    windSpeed: number
+  }
 }
 
 interface CurrentWeatherCheck {
@@ -82,6 +241,10 @@ interface CurrentWeatherCheck {
     humidity: number
     uvIndex: number
     feelsLike: number
+    visibility: string
+    visibilityMeters: number | null
+    heatIndex: number
+    heatRisk: "none" | "caution" | "extremeCaution" | "danger"
   }
   updateDecision: {
     shouldUpdate: boolean
@@ -92,8 +255,27 @@ interface CurrentWeatherCheck {
     shoes: string[]
     accessories: string[]
   }
+  missingFromWardrobe?: string[]
   message: string
   timeUntilDeparture: string
+  rainNowcast?: {
+    status: "dry" | "partial" | "noData" | "rainStarting" | "rainStopping" | "raining"
+    message: string
+    rainStartsAt?: string
+    rainStopsAt?: string
+    suggestedShiftMinutes?: number
+    suggestedDurationMinutes?: number
+  } | null
+  airQuality?: {
+    usAqi: number
+    europeanAqi: number | null
+    pm25: number | null
+    ozone: number | null
+    category: string
+    recommendations: string[]
+  } | null
+  surfaceCondition?: SurfaceCondition | null
+  safety?: WalkSafety
 }
 
 function formatTimeWithBoth(time12h: string): string {
@@ -118,6 +300,35 @@ function formatTimeWithBoth(time12h: string): string {
   }
 }
 
+// When the planned walk finishes, in the city's timezone, or null if the plan has no clock start time
+function getWalkEnd(plan: WalkPlan | null): moment.Moment | null {
+  if (!plan) return null
+
+  const start = parsePlanTime(plan, plan.startTime)
+  return start ? start.add(plan.walkDurationMinutes ?? 0, "minutes") : null
+}
+
+// A "h:mm A" time from the plan, on the plan's date in the plan's timezone
+function parsePlanTime(plan: WalkPlan, time: string): moment.Moment | null {
+  if (!plan.timezone) return null
+
+  // toLocaleTimeString can put a narrow no-break space before AM/PM
+  const parsed = moment.tz(`${plan.date} ${time.replace(/\s+/g, " ")}`, "YYYY-MM-DD h:mm A", true, plan.timezone)
+  return parsed.isValid() ? parsed : null
+}
+
+function getMoonEmoji(phaseName: string): string {
+  const lower = phaseName.toLowerCase()
+  if (lower.includes("new")) return "🌑"
+  if (lower.includes("waxing crescent")) return "🌒"
+  if (lower.includes("first quarter")) return "🌓"
+  if (lower.includes("waxing gibbous")) return "🌔"
+  if (lower.includes("full")) return "🌕"
+  if (lower.includes("waning gibbous")) return "🌖"
+  if (lower.includes("last quarter")) return "🌗"
+  return "🌘"
+}
+
 function getWeatherEmoji(condition: string): string {
   const lower = condition.toLowerCase()
   if (lower.includes("clear") || lower.includes("sunny")) return "☀️"
@@ -136,7 +347,8 @@ export function SunsetWalkPlanner() {
   const [cityOptions, setCityOptions] = useState<CityOption[]>([])
   const [selectedCity, setSelectedCity] = useState<CityOption | null>(null)
   const [todaySunsetInfo, setTodaySunsetInfo] = useState<{
-    sunsetTime: string
+    sunsetTime?: string
+    sunStatusMessage?: string
     timeUntilSunset: string
     timezone: string
     sunsetPassed: boolean
@@ -144,7 +356,23 @@ export function SunsetWalkPlanner() {
   const [hours, setHours] = useState("0")
   const [minutes, setMinutes] = useState("30")
   const [date, setDate] = useState<Date>()
+  const [walkMode, setWalkMode] = useState<WalkMode>("sunset")
+  const [morningStart, setMorningStart] = useState<MorningStart>("civilDawn")
+  const [finishBy, setFinishBy] = useState<FinishBy>("sunset")
+  const [toleranceMinutes, setToleranceMinutes] = useState("15")
+  const [schedule, setSchedule] = useState<Schedule>("latest")
+  const [prepMinutes, setPrepMinutes] = useState("0")
+  const [travelMinutes, setTravelMinutes] = useState("0")
+  const [findBestWindow, setFindBestWindow] = useState(false)
+  const [showForecastConfidence, setShowForecastConfidence] = useState(false)
+  const [wardrobe, setWardrobe] = useState<WardrobeItem[]>([])
+  const [showWardrobe, setShowWardrobe] = useState(false)
+  const [comfortProfile, setComfortProfile] = useState<ComfortProfile>({ offset: 0, ratingCount: 0 })
+  const [walkRating, setWalkRating] = useState<ComfortRating | null>(null)
+  const [intensity, setIntensity] = useState<WalkIntensity>("stroll")
   const [loading, setLoading] = useState(false)
+  const [walkCalendar, setWalkCalendar] = useState<WalkCalendarDay[] | null>(null)
+  const [loadingCalendar, setLoadingCalendar] = useState(false)
   const [walkPlan, setWalkPlan] = useState<WalkPlan | null>(null)
   const [error, setError] = useState("")
   const [loadingOutfit, setLoadingOutfit] = useState(false)
@@ -156,6 +384,35 @@ export function SunsetWalkPlanner() {
   const [weatherCheckTime, setWeatherCheckTime] = useState<Date | null>(null)
   const [refreshedTimeRemaining, setRefreshedTimeRemaining] = useState<string | null>(null)
 
+  // The wardrobe and comfort profile live in localStorage, which is only available after mounting
+  useEffect(() => {
+    setWardrobe(loadWardrobe())
+    setComfortProfile(loadComfortProfile())
+  }, [])
+
+  // Ratings should come from having worn the outfit, so they only open once the walk is over.
+  // Tick while there's a plan so the card opens on time.
+  useEffect(() => {
+    if (!walkPlan) return
+    const timer = setInterval(() => setCurrentTime(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [walkPlan])
+
+  const walkEnd = getWalkEnd(walkPlan)
+  const canRateWalk = walkEnd !== null && !walkEnd.isAfter(currentTime)
+
+  const handleRateWalk = (rating: ComfortRating) => {
+    const updated = applyComfortRating(comfortProfile, rating)
+    setComfortProfile(updated)
+    saveComfortProfile(updated)
+    setWalkRating(rating)
+  }
+
+  const handleWardrobeChange = (items: WardrobeItem[]) => {
+    setWardrobe(items)
+    saveWardrobe(items)
+  }
+
   useEffect(() => {
     if (step === "planWalk" && walkPlan?.timezone && !date) {
       const cityMoment = moment.tz(walkPlan.timezone)
@@ -252,6 +509,7 @@ export function SunsetWalkPlanner() {
       if (!data.error) {
         setTodaySunsetInfo({
           sunsetTime: data.sunsetTime,
+          sunStatusMessage: data.sunStatusMessage,
           timeUntilSunset:
             data.timeUntilWalk === "You should have already started!"
               ? "Sunset has already passed"
@@ -275,6 +533,52 @@ export function SunsetWalkPlanner() {
     setDate(selectedDate)
   }
 
+  const handleShowCalendar = async () => {
+    if (!selectedCity) return
+
+    const h = Number.parseInt(hours) || 0
+    const m = Number.parseInt(minutes) || 0
+    const startDate = getCityCurrentDate()
+    const endDate = new Date(startDate)
+    endDate.setDate(endDate.getDate() + 13)
+
+    setLoadingCalendar(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/walk-calendar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lat: selectedCity.lat,
+          lon: selectedCity.lon,
+          startDate: format(startDate, "yyyy-MM-dd"),
+          endDate: format(endDate, "yyyy-MM-dd"),
+          hours: h,
+          minutes: m,
+          finishBy,
+          toleranceMinutes: Number.parseInt(toleranceMinutes) || 0,
+          temperatureUnit,
+          speedUnit,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.error) {
+        setError(data.error)
+        return
+      }
+
+      setWalkCalendar(data.days)
+    } catch (err) {
+      console.error("Failed to fetch walk calendar:", err)
+      setError("Failed to load departure times. Please try again.")
+    } finally {
+      setLoadingCalendar(false)
+    }
+  }
+
   const handleCalculate = async () => {
     const h = Number.parseInt(hours) || 0
     const m = Number.parseInt(minutes) || 0
@@ -307,6 +611,13 @@ export function SunsetWalkPlanner() {
           date: format(date, "yyyy-MM-dd"),
           hours: h,
           minutes: m,
+          walkMode,
+          morningStart,
+          finishBy,
+          toleranceMinutes: Number.parseInt(toleranceMinutes) || 0,
+          schedule,
+          prepMinutes: Number.parseInt(prepMinutes) || 0,
+          travelMinutes: Number.parseInt(travelMinutes) || 0,
           city: `${selectedCity.name}, ${selectedCity.state ? selectedCity.state + ", " : ""}${selectedCity.country}`,
           temperatureUnit,
           speedUnit,
@@ -346,6 +657,14 @@ export function SunsetWalkPlanner() {
           city: plan.city,
           temperatureUnit,
           speedUnit,
+          mode: findBestWindow && plan.walkMode !== "sunrise" ? "optimalWindow" : "startTime",
+          darknessCutoff: plan.darknessCutoff,
+          walkDurationMinutes: plan.walkDurationMinutes,
+          timezone: plan.timezone,
+          includeUncertainty: showForecastConfidence,
+          wardrobe,
+          comfortOffset: comfortProfile.offset,
+          intensity,
         }),
       })
 
@@ -356,6 +675,14 @@ export function SunsetWalkPlanner() {
           ...prev!,
           weather: data.weather,
           outfitRecommendations: data.recommendations,
+          walkForecast: data.walkForecast,
+          optimalWindow: data.optimalWindow,
+          safety: data.safety,
+          forecastSpread: data.forecastSpread,
+          surfaceCondition: data.surfaceCondition,
+          climateContext: data.climateContext,
+          forecastBias: data.forecastBias,
+          missingFromWardrobe: data.missingFromWardrobe,
         }))
       }
     } catch (err) {
@@ -381,9 +708,15 @@ export function SunsetWalkPlanner() {
           forecastWeather: walkPlan.weather,
           city: walkPlan.city,
           startTime: walkPlan.startTime,
+          date: walkPlan.date,
+          timezone: walkPlan.timezone,
+          walkDurationMinutes: walkPlan.walkDurationMinutes,
           temperatureUnit,
           speedUnit,
           originalOutfit: walkPlan.outfitRecommendations,
+          wardrobe,
+          comfortOffset: comfortProfile.offset,
+          intensity,
         }),
       })
 
@@ -433,6 +766,16 @@ export function SunsetWalkPlanner() {
     setHours("0")
     setMinutes("30")
     setDate(undefined)
+    setWalkMode("sunset")
+    setMorningStart("civilDawn")
+    setFinishBy("sunset")
+    setToleranceMinutes("15")
+    setSchedule("latest")
+    setPrepMinutes("0")
+    setTravelMinutes("0")
+    setFindBestWindow(false)
+    setShowForecastConfidence(false)
+    setWalkCalendar(null)
     setWalkPlan(null)
     setError("")
     setLoadingOutfit(false)
@@ -442,6 +785,8 @@ export function SunsetWalkPlanner() {
     setCurrentTime(new Date())
     setWeatherCheckTime(null)
     setRefreshedTimeRemaining(null)
+    setWalkRating(null)
+    setIntensity("stroll")
   }
 
   const calculateTimeRemaining = () => {
@@ -472,7 +817,12 @@ export function SunsetWalkPlanner() {
 
       const diffMs = startTimeMoment.diff(nowInCityTz)
 
-      if (diffMs <= 0) {
+      if (diffMs <= 0 && walkPlan.walkMode === "sunrise") {
+        const sunset = walkPlan.sunsetTime ? parsePlanTime(walkPlan, walkPlan.sunsetTime) : null
+        return sunset && !nowInCityTz.isBefore(sunset)
+          ? "The sun has already set. Plan tomorrow's sunrise walk instead."
+          : "It's already light out, you can head out now!"
+      } else if (diffMs <= 0) {
         return "You should have already started!"
       }
 
@@ -620,19 +970,23 @@ export function SunsetWalkPlanner() {
                 <Sunrise className="h-6 w-6 text-primary" />
                 <h3 className="text-lg font-semibold">Today's Sunset</h3>
               </div>
-              <div className="space-y-2">
-                <div className="flex justify-between items-baseline">
-                  <span className="text-sm text-muted-foreground">Sunset time:</span>
-                  <span className="text-2xl font-bold text-primary">
-                    {formatTimeWithBoth(todaySunsetInfo.sunsetTime)}
-                    <span className="text-sm font-normal text-muted-foreground ml-2">{todaySunsetInfo.timezone}</span>
-                  </span>
-                </div>
-                <div className="flex justify-between items-baseline">
-                  <span className="text-sm text-muted-foreground">Time until sunset:</span>
-                  <span className="text-lg font-semibold">{todaySunsetInfo.timeUntilSunset}</span>
+              {todaySunsetInfo.sunsetTime ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-baseline">
+                    <span className="text-sm text-muted-foreground">Sunset time:</span>
+                    <span className="text-2xl font-bold text-primary">
+                      {formatTimeWithBoth(todaySunsetInfo.sunsetTime)}
+                      <span className="text-sm font-normal text-muted-foreground ml-2">{todaySunsetInfo.timezone}</span>
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-baseline">
+                    <span className="text-sm text-muted-foreground">Time until sunset:</span>
+                    <span className="text-lg font-semibold">{todaySunsetInfo.timeUntilSunset}</span>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-pretty">{todaySunsetInfo.sunStatusMessage}</p>
+              )}
             </div>
 
             <div className="flex gap-2">
@@ -655,6 +1009,119 @@ export function SunsetWalkPlanner() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label className="text-base font-medium flex items-center gap-2">
+                <Sun className="h-4 w-4" />
+                When would you like to walk?
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={walkMode === "sunset" ? "default" : "outline"}
+                  onClick={() => setWalkMode("sunset")}
+                  className={cn(walkMode !== "sunset" && "bg-transparent")}
+                >
+                  <Sunset className="h-4 w-4 mr-2" />
+                  Evening (sunset)
+                </Button>
+                <Button
+                  variant={walkMode === "sunrise" ? "default" : "outline"}
+                  onClick={() => setWalkMode("sunrise")}
+                  className={cn(walkMode !== "sunrise" && "bg-transparent")}
+                >
+                  <Sunrise className="h-4 w-4 mr-2" />
+                  Morning (sunrise)
+                </Button>
+              </div>
+              {walkMode === "sunrise" && (
+                <div className="flex gap-2 items-center text-sm animate-in fade-in duration-300">
+                  <span className="text-muted-foreground">Head out at:</span>
+                  <Button
+                    variant={morningStart === "civilDawn" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setMorningStart("civilDawn")}
+                  >
+                    First light (civil dawn)
+                  </Button>
+                  <Button
+                    variant={morningStart === "sunrise" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setMorningStart("sunrise")}
+                  >
+                    Sunrise
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {walkMode === "sunset" && (
+              <div className="space-y-2">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <Sunset className="h-4 w-4" />
+                  How should we schedule your walk?
+                </Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {SCHEDULE_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant={schedule === option.value ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setSchedule(option.value)}
+                      className={cn(schedule !== option.value && "bg-transparent")}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {walkMode === "sunset" && (
+              <div className="space-y-2">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <Moon className="h-4 w-4" />
+                  Finish your walk before:
+                </Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {FINISH_BY_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant={finishBy === option.value ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setFinishBy(option.value)}
+                      className={cn(finishBy !== option.value && "bg-transparent")}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground pt-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={findBestWindow}
+                    onChange={(e) => setFindBestWindow(e.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Find the start time with the best weather before dark
+                </label>
+                {finishBy === "custom" && (
+                  <div className="flex gap-2 items-center animate-in fade-in duration-300">
+                    <Label htmlFor="toleranceMinutes" className="text-sm text-muted-foreground">
+                      Minutes after sunset
+                    </Label>
+                    <Input
+                      id="toleranceMinutes"
+                      type="number"
+                      min="0"
+                      max="120"
+                      value={toleranceMinutes}
+                      onChange={(e) => setToleranceMinutes(e.target.value)}
+                      className="text-base w-24"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label className="text-base font-medium flex items-center gap-2">
                 <Clock className="h-4 w-4" />
@@ -692,6 +1159,68 @@ export function SunsetWalkPlanner() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label className="text-base font-medium flex items-center gap-2">
+                <Footprints className="h-4 w-4" />
+                How hard will you be going?
+              </Label>
+              <div className="grid grid-cols-4 gap-2">
+                {WALK_INTENSITY_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={intensity === option.value ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setIntensity(option.value)}
+                    className={cn(intensity !== option.value && "bg-transparent")}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              {describeIntensityWarming(intensity) && (
+                <p className="text-sm text-muted-foreground">
+                  {describeIntensityWarming(intensity)}, since you&apos;ll warm up on the move.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-base font-medium flex items-center gap-2">
+                <Watch className="h-4 w-4" />
+                How much time do you need before you start walking?
+              </Label>
+              <div className="flex gap-4 items-end">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="prepMinutes" className="text-sm text-muted-foreground">
+                    Getting ready (minutes)
+                  </Label>
+                  <Input
+                    id="prepMinutes"
+                    type="number"
+                    min="0"
+                    max="120"
+                    value={prepMinutes}
+                    onChange={(e) => setPrepMinutes(e.target.value)}
+                    className="text-base"
+                  />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="travelMinutes" className="text-sm text-muted-foreground">
+                    Travel to start point (minutes)
+                  </Label>
+                  <Input
+                    id="travelMinutes"
+                    type="number"
+                    min="0"
+                    max="180"
+                    value={travelMinutes}
+                    onChange={(e) => setTravelMinutes(e.target.value)}
+                    className="text-base"
+                  />
+                </div>
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label className="text-base font-medium flex items-center gap-2">
                 <CalendarIcon className="h-4 w-4" />
@@ -724,7 +1253,12 @@ export function SunsetWalkPlanner() {
 
                       if (checkDate < cityToday) return true
 
-                      if (checkDate.getTime() === cityToday.getTime() && todaySunsetInfo?.sunsetPassed) return true
+                      if (
+                        walkMode === "sunset" &&
+                        checkDate.getTime() === cityToday.getTime() &&
+                        todaySunsetInfo?.sunsetPassed
+                      )
+                        return true
 
                       return false
                     }}
@@ -732,6 +1266,105 @@ export function SunsetWalkPlanner() {
                   />
                 </PopoverContent>
               </Popover>
+
+              <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showForecastConfidence}
+                  onChange={(e) => setShowForecastConfidence(e.target.checked)}
+                  className="h-4 w-4 accent-primary"
+                />
+                Show forecast confidence (useful for walks several days out)
+              </label>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowWardrobe(!showWardrobe)}
+                className="w-full text-muted-foreground"
+              >
+                <Shirt className="h-4 w-4 mr-2" />
+                {wardrobe.length > 0 ? `My wardrobe (${wardrobe.length} items)` : "Add the clothes you own"}
+              </Button>
+              {showWardrobe && <WardrobeEditor items={wardrobe} onChange={handleWardrobeChange} />}
+
+              {walkMode === "sunset" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleShowCalendar}
+                  disabled={loadingCalendar}
+                  className="w-full text-muted-foreground"
+                >
+                  {loadingCalendar ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  ) : (
+                    <CalendarIcon className="h-4 w-4 mr-2" />
+                  )}
+                  {walkCalendar ? "Refresh departure times for the next 2 weeks" : "Show departure times for the next 2 weeks"}
+                </Button>
+              )}
+
+              {walkMode === "sunset" && walkCalendar && (
+                <div className="border rounded-lg overflow-hidden animate-in fade-in duration-300">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary text-secondary-foreground">
+                      <tr>
+                        <th className="text-left font-medium px-3 py-2">Date</th>
+                        <th className="text-left font-medium px-3 py-2">Leave by</th>
+                        <th className="text-left font-medium px-3 py-2">Sunset</th>
+                        <th className="text-left font-medium px-3 py-2">Dark</th>
+                        <th className="text-left font-medium px-3 py-2">Forecast</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {walkCalendar.map((day) => {
+                        const [year, month, dayOfMonth] = day.date.split("-").map(Number)
+                        const dayDate = new Date(year, month - 1, dayOfMonth)
+                        const isSelected = date && format(date, "yyyy-MM-dd") === day.date
+
+                        return (
+                          <tr
+                            key={day.date}
+                            onClick={() => setDate(dayDate)}
+                            className={cn(
+                              "border-t cursor-pointer hover:bg-accent/10",
+                              isSelected && "bg-primary/10 font-medium",
+                            )}
+                          >
+                            <td className="px-3 py-2">{format(dayDate, "EEE, MMM d")}</td>
+                            {day.sunStatus === "normal" ? (
+                              <>
+                                <td className="px-3 py-2 font-semibold text-amber-700 dark:text-amber-400">
+                                  {day.latestDeparture}
+                                </td>
+                                <td className="px-3 py-2">{day.sunsetTime}</td>
+                                <td className="px-3 py-2">{day.civilTwilightEnd || "—"}</td>
+                              </>
+                            ) : (
+                              <td colSpan={3} className="px-3 py-2 text-muted-foreground">
+                                {day.sunStatus === "midnightSun" ? "Midnight sun, any time works" : "Polar night"}
+                              </td>
+                            )}
+                            <td className="px-3 py-2">
+                              {day.forecast ? (
+                                <span title={day.forecast.condition}>
+                                  {getWeatherEmoji(day.forecast.condition)} {day.forecast.temperature}°
+                                  {day.forecast.precipitation > 20 && (
+                                    <span className="text-muted-foreground"> {day.forecast.precipitation}%</span>
+                                  )}
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
 
             {error && <p className="text-sm text-destructive">{error}</p>}
@@ -751,9 +1384,11 @@ export function SunsetWalkPlanner() {
           <div className="space-y-6 animate-in fade-in duration-500">
             <div className="p-6 bg-gradient-to-br from-primary/10 to-accent/10 border border-orange-600/50 dark:border-orange-700/40 rounded-lg space-y-4">
               <div className="text-center space-y-4">
-                <div className="text-6xl">🌅</div>
+                <div className="text-6xl">{walkPlan.walkMode === "sunrise" ? "🌄" : "🌅"}</div>
                 <div className="space-y-2">
-                  <h3 className="text-2xl font-bold text-balance">Time to chase the sunset!</h3>
+                  <h3 className="text-2xl font-bold text-balance">
+                    {walkPlan.walkMode === "sunrise" ? "Rise and shine for a sunrise walk!" : "Time to chase the sunset!"}
+                  </h3>
                   <p className="text-muted-foreground text-pretty">
                     Here's your perfect walking schedule for {walkPlan.city}
                   </p>
@@ -761,24 +1396,85 @@ export function SunsetWalkPlanner() {
               </div>
 
               <div className="grid gap-4">
-                <div className="p-4 bg-gradient-to-br from-accent/20 to-primary/20 rounded-lg space-y-1">
-                  <div className="flex items-center gap-2 mb-1">
-                    <Sunset className="h-5 w-5 text-primary" />
-                    <p className="text-sm text-muted-foreground">Sunset time:</p>
+                {walkPlan.sunStatus && walkPlan.sunStatus !== "normal" ? (
+                  <div className="p-4 bg-gradient-to-br from-accent/20 to-primary/20 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2 mb-1">
+                      {walkPlan.sunStatus === "midnightSun" ? (
+                        <Sun className="h-5 w-5 text-primary" />
+                      ) : (
+                        <Moon className="h-5 w-5 text-primary" />
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {walkPlan.sunStatus === "midnightSun" ? "Midnight sun" : "Polar night"}
+                      </p>
+                    </div>
+                    <p className="text-sm text-pretty">{walkPlan.sunStatusMessage}</p>
+                    {walkPlan.solarNoon && (
+                      <p className="text-sm text-muted-foreground">
+                        Solar noon: <span className="font-semibold">{walkPlan.solarNoon}</span>
+                      </p>
+                    )}
                   </div>
-                  <p className="text-2xl font-bold text-primary">
-                    {formatTimeWithBoth(walkPlan.sunsetTime)}
-                    {walkPlan.timezoneAbbr && (
-                      <span className="text-base font-normal text-muted-foreground ml-2">{walkPlan.timezoneAbbr}</span>
+                ) : walkPlan.walkMode === "sunrise" && walkPlan.sunriseTime ? (
+                  <div className="p-4 bg-gradient-to-br from-accent/20 to-primary/20 rounded-lg space-y-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Sunrise className="h-5 w-5 text-primary" />
+                      <p className="text-sm text-muted-foreground">Sunrise time:</p>
+                    </div>
+                    <p className="text-2xl font-bold text-primary">
+                      {formatTimeWithBoth(walkPlan.sunriseTime)}
+                      {walkPlan.timezoneAbbr && (
+                        <span className="text-base font-normal text-muted-foreground ml-2">{walkPlan.timezoneAbbr}</span>
+                      )}
+                    </p>
+                    {walkPlan.sunriseAzimuth !== undefined && (
+                      <p className="text-sm text-muted-foreground">
+                        Sun rises at{" "}
+                        <span className="font-semibold">
+                          {walkPlan.sunriseAzimuth}° {walkPlan.sunriseCompass}
+                        </span>
+                      </p>
                     )}
-                  </p>
-                </div>
+                    {walkPlan.civilTwilightBegin && walkPlan.minutesOfDawnLight && (
+                      <p className="text-sm text-muted-foreground">
+                        First light (civil dawn) begins at{" "}
+                        <span className="font-semibold">{walkPlan.civilTwilightBegin}</span>, about{" "}
+                        <span className="font-semibold">{walkPlan.minutesOfDawnLight} minutes</span> before sunrise.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="p-4 bg-gradient-to-br from-accent/20 to-primary/20 rounded-lg space-y-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Sunset className="h-5 w-5 text-primary" />
+                      <p className="text-sm text-muted-foreground">Sunset time:</p>
+                    </div>
+                    <p className="text-2xl font-bold text-primary">
+                      {walkPlan.sunsetTime && formatTimeWithBoth(walkPlan.sunsetTime)}
+                      {walkPlan.timezoneAbbr && (
+                        <span className="text-base font-normal text-muted-foreground ml-2">{walkPlan.timezoneAbbr}</span>
+                      )}
+                    </p>
+                    {walkPlan.sunsetAzimuth !== undefined && (
+                      <p className="text-sm text-muted-foreground">
+                        Sun sets at{" "}
+                        <span className="font-semibold">
+                          {walkPlan.sunsetAzimuth}° {walkPlan.sunsetCompass}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 <div className="p-4 bg-gradient-to-br from-orange-100 to-amber-200 dark:from-orange-900/40 dark:to-amber-800/40 border border-orange-200/50 dark:border-orange-800/30 rounded-lg space-y-1">
                   <div className="flex items-center gap-2 mb-1">
                     <Watch className="h-5 w-5 text-amber-700 dark:text-amber-400" />
                     <p className="text-sm text-muted-foreground">
-                      {walkPlan.shouldHaveLeftBy ? "Oops, It's after suggested departure time!" : "Start your walk by:"}
+                      {walkPlan.shouldHaveLeftBy
+                        ? "Oops, It's after suggested departure time!"
+                        : walkPlan.walkMode === "sunrise"
+                          ? "Earliest time to head out:"
+                          : "Start your walk by:"}
                     </p>
                   </div>
                   <p className="text-2xl font-bold text-amber-700 dark:text-amber-400">
@@ -787,17 +1483,118 @@ export function SunsetWalkPlanner() {
                       <span className="text-base font-normal text-muted-foreground ml-2">{walkPlan.timezoneAbbr}</span>
                     )}
                   </p>
+                  {walkPlan.walkMode !== "sunrise" && walkPlan.darknessCutoff && walkPlan.finishBy !== "sunset" && (
+                    <p className="text-sm text-muted-foreground">
+                      To finish by <span className="font-semibold">{walkPlan.darknessCutoff}</span> (
+                      {walkPlan.darknessCutoffLabel})
+                    </p>
+                  )}
                 </div>
 
+                {!walkPlan.shouldHaveLeftBy &&
+                  ((walkPlan.prepMinutes ?? 0) > 0 || (walkPlan.travelMinutes ?? 0) > 0) && (
+                    <div className="p-4 bg-card/60 border border-orange-200/50 dark:border-orange-800/30 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Clock className="h-5 w-5 text-amber-700 dark:text-amber-400" />
+                        <p className="text-sm font-medium">Your countdown</p>
+                      </div>
+                      <div className="grid gap-1 text-sm">
+                        {(walkPlan.prepMinutes ?? 0) > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Start getting ready by</span>
+                            <span className="font-semibold">{walkPlan.getReadyBy}</span>
+                          </div>
+                        )}
+                        {(walkPlan.travelMinutes ?? 0) > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Leave home by</span>
+                            <span className="font-semibold">{walkPlan.leaveHomeBy}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Start walking at</span>
+                          <span className="font-semibold">{walkPlan.startTime}</span>
+                        </div>
+                      </div>
+                      {walkPlan.timeUntilGetReady ? (
+                        <p className="text-sm text-muted-foreground">
+                          You have <span className="font-semibold">{walkPlan.timeUntilGetReady}</span> before you need
+                          to start getting ready.
+                        </p>
+                      ) : (
+                        <p className="text-sm font-medium text-amber-700 dark:text-amber-400">
+                          Time to start getting ready!
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                {walkPlan.goldenHour && (
+                  <div className="p-4 bg-gradient-to-br from-amber-100 to-orange-100 dark:from-amber-900/30 dark:to-orange-900/30 border border-amber-300/50 dark:border-amber-700/30 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Sun className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+                      <p className="text-sm font-medium text-amber-800 dark:text-amber-300">Golden hour & blue hour</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <p className="text-muted-foreground">Golden hour</p>
+                        <p className="font-medium">
+                          {walkPlan.goldenHour.start} – {walkPlan.goldenHour.end}
+                        </p>
+                      </div>
+                      {walkPlan.blueHour && (
+                        <div>
+                          <p className="text-muted-foreground">Blue hour</p>
+                          <p className="font-medium">
+                            {walkPlan.blueHour.start} – {walkPlan.blueHour.end}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                    {walkPlan.schedule === "goldenHour" && (
+                      <p className="text-sm text-muted-foreground">
+                        Your start time is set to keep you outside for as much of golden hour as possible.
+                      </p>
+                    )}
+                    {walkPlan.schedule === "centerOnSunset" && (
+                      <p className="text-sm text-muted-foreground">Your walk is centred on sunset.</p>
+                    )}
+                  </div>
+                )}
+
+                {walkPlan.walkDirection && (
+                  <div className="p-4 bg-gradient-to-br from-sky-50 to-amber-50 dark:from-sky-950/30 dark:to-amber-950/30 border border-sky-300/50 dark:border-sky-700/30 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Compass className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+                      <p className="text-sm font-medium text-sky-800 dark:text-sky-300">Which way to walk</p>
+                    </div>
+                    <p className="text-sm text-muted-foreground text-pretty">{walkPlan.walkDirection.recommendation}</p>
+                    <div className="flex flex-wrap gap-1.5 pt-1">
+                      {walkPlan.walkDirection.sunPath.map((point, index) => (
+                        <span
+                          key={index}
+                          className="px-2.5 py-1 bg-sky-100/70 dark:bg-sky-900/30 text-sky-800 dark:text-sky-300 rounded-full text-xs"
+                          title={`Sun altitude ${point.altitude}°`}
+                        >
+                          {point.time}: {point.azimuth}° {point.compass}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {walkPlan.minutesWalkingInDark && walkPlan.minutesWalkingInDark > 0 && (
                   <div className="p-4 bg-gradient-to-br from-slate-100 to-indigo-100 dark:from-slate-800/50 dark:to-indigo-900/30 border border-slate-300/50 dark:border-indigo-700/30 rounded-lg space-y-2">
                     <div className="flex items-center gap-2">
                       <Moon className="h-5 w-5 text-slate-600 dark:text-slate-400" />
-                      <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Walking after sunset</p>
+                      <p className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                        Walking after {walkPlan.darknessCutoffLabel || "sunset"}
+                      </p>
                     </div>
                     <p className="text-sm text-muted-foreground">
                       With this walk duration, you'll be walking for approximately{" "}
-                      <span className="font-semibold">{walkPlan.minutesWalkingInDark} minutes</span> after sunset.
+                      <span className="font-semibold">{walkPlan.minutesWalkingInDark} minutes</span> after{" "}
+                      {walkPlan.darknessCutoffLabel || "sunset"}.
                     </p>
                     {walkPlan.civilTwilightEnd && walkPlan.minutesUntilDark && (
                       <p className="text-sm text-muted-foreground pt-2 border-t border-slate-300/50 dark:border-indigo-700/30">
@@ -806,6 +1603,34 @@ export function SunsetWalkPlanner() {
                         civil twilight ends at <span className="font-semibold">{walkPlan.civilTwilightEnd}</span>).
                       </p>
                     )}
+                    {walkPlan.moon && (
+                      <div className="text-sm text-muted-foreground pt-2 border-t border-slate-300/50 dark:border-indigo-700/30 space-y-1">
+                        <p>
+                          <span className="mr-1">{getMoonEmoji(walkPlan.moon.phaseName)}</span>
+                          {walkPlan.moon.phaseName}, <span className="font-semibold">{walkPlan.moon.illumination}%</span>{" "}
+                          illuminated
+                          {walkPlan.moon.moonrise && (
+                            <>
+                              {" "}
+                              · Moonrise <span className="font-semibold">{walkPlan.moon.moonrise}</span>
+                            </>
+                          )}
+                          {walkPlan.moon.moonset && (
+                            <>
+                              {" "}
+                              · Moonset <span className="font-semibold">{walkPlan.moon.moonset}</span>
+                            </>
+                          )}
+                        </p>
+                        {walkPlan.moon.isDarkAndMoonless ? (
+                          <p className="font-medium text-slate-700 dark:text-slate-300">
+                            Dark, moonless night: bring a headlamp or flashlight and wear something reflective.
+                          </p>
+                        ) : (
+                          <p>The moon will be up and lighting your way as you finish.</p>
+                        )}
+                      </div>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -822,7 +1647,11 @@ export function SunsetWalkPlanner() {
                     <div className="flex items-center justify-between mb-1">
                       <div className="flex items-center gap-2">
                         <Footprints className="h-5 w-5 text-lime-600 dark:text-lime-400" />
-                        <p className="text-sm text-muted-foreground">Time remaining until you need to leave:</p>
+                        <p className="text-sm text-muted-foreground">
+                          {walkPlan.walkMode === "sunrise"
+                            ? "Time remaining until you can head out:"
+                            : "Time remaining until you need to leave:"}
+                        </p>
                       </div>
                       <Button
                         variant="ghost"
@@ -854,12 +1683,52 @@ export function SunsetWalkPlanner() {
                 <div className="p-6 bg-gradient-to-br from-primary/10 to-accent/10 border border-orange-600/50 dark:border-orange-700/40 rounded-lg space-y-4">
                   <div className="flex items-center gap-2">
                     <div className="text-3xl">{getWeatherEmoji(walkPlan.weather.condition)}</div>
-                    <div>
+                    <div className="flex-1">
                       <h4 className="font-semibold text-lg">Weather Forecast</h4>
                       <p className="text-sm text-muted-foreground">For your walk time</p>
                     </div>
+                    {walkPlan.forecastSpread && (
+                      <span
+                        className={cn(
+                          "px-2.5 py-1 rounded-full text-xs font-medium",
+                          walkPlan.forecastSpread.confidence === "high" &&
+                            "bg-green-500/15 text-green-700 dark:text-green-400",
+                          walkPlan.forecastSpread.confidence === "medium" &&
+                            "bg-amber-500/15 text-amber-700 dark:text-amber-400",
+                          walkPlan.forecastSpread.confidence === "low" && "bg-red-500/15 text-red-700 dark:text-red-400",
+                        )}
+                        title={`Based on ${walkPlan.forecastSpread.memberCount} ensemble forecasts`}
+                      >
+                        {walkPlan.forecastSpread.confidence === "high"
+                          ? "High confidence"
+                          : walkPlan.forecastSpread.confidence === "medium"
+                            ? "Medium confidence"
+                            : "Low confidence"}
+                      </span>
+                    )}
                   </div>
 
+                  {walkPlan.forecastSpread && (
+                    <p className="text-sm text-muted-foreground">
+                      Likely {formatTemperature(walkPlan.forecastSpread.temperature.p10, temperatureUnit)} to{" "}
+                      {formatTemperature(walkPlan.forecastSpread.temperature.p90, temperatureUnit)} at the start (most
+                      likely {formatTemperature(walkPlan.forecastSpread.temperature.p50, temperatureUnit)}), with{" "}
+                      {walkPlan.forecastSpread.precipitation.p10}–{walkPlan.forecastSpread.precipitation.p90} mm of rain
+                      over the walk.
+                    </p>
+                  )}
+
+                  {walkPlan.climateContext && (
+                    <p className="text-sm font-medium">{walkPlan.climateContext.message}.</p>
+                  )}
+
+                  {walkPlan.forecastBias?.message && (
+                    <p className="text-sm text-muted-foreground">
+                      {walkPlan.forecastBias.message}, so the walk-time numbers below are adjusted (from{" "}
+                      {walkPlan.forecastBias.sampleCount} past checks).
+                    </p>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <p className="text-muted-foreground">Temperature</p>
@@ -879,12 +1748,67 @@ export function SunsetWalkPlanner() {
                     </div>
                   </div>
 
-                  <div className="pt-4 border-t border-primary/20 space-y-3">
+                  {walkPlan.walkForecast && walkPlan.walkForecast.hourly.length > 1 && (
+                    <div className="space-y-2 text-sm">
+                      <p className="text-muted-foreground">
+                        Over the whole walk: {formatTemperature(walkPlan.walkForecast.minTemperature, temperatureUnit)} to{" "}
+                        {formatTemperature(walkPlan.walkForecast.maxTemperature, temperatureUnit)}, wind up to{" "}
+                        {formatSpeed(walkPlan.walkForecast.peakWindSpeed, speedUnit)}, precipitation up to{" "}
+                        {walkPlan.walkForecast.peakPrecipitation}%
+                      </p>
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        {walkPlan.walkForecast.hourly.map((hour, index) => (
+                          <div
+                            key={index}
+                            className="flex-shrink-0 px-3 py-2 bg-card/60 border rounded-lg text-center space-y-0.5"
+                            title={hour.condition}
+                          >
+                            <p className="text-xs text-muted-foreground">{hour.time}</p>
+                            <p className="text-lg">{getWeatherEmoji(hour.condition)}</p>
+                            <p className="font-medium">{hour.temperature}°</p>
+                            <p className="text-xs text-muted-foreground">{hour.precipitation}%</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {walkPlan.optimalWindow && (
+                    <div className="p-3 bg-sky-50/70 dark:bg-sky-950/20 border border-sky-300/50 dark:border-sky-700/30 rounded-lg space-y-1 text-sm">
+                      <p className="font-medium text-sky-800 dark:text-sky-300">
+                        Best weather window: {walkPlan.optimalWindow.startTime} – {walkPlan.optimalWindow.endTime}
+                      </p>
+                      <p className="text-muted-foreground text-pretty">{walkPlan.optimalWindow.message}</p>
+                    </div>
+                  )}
+
+                  {walkPlan.safety && !walkPlan.safety.recommended && (
+                    <div className="p-4 bg-red-50/70 dark:bg-red-950/20 border-2 border-red-500/50 dark:border-red-700/40 rounded-lg space-y-2">
+                      <p className="font-semibold text-red-700 dark:text-red-400 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Walk not recommended
+                      </p>
+                      <ul className="text-sm space-y-1">
+                        {walkPlan.safety.reasons.map((reason, index) => (
+                          <li key={index}>• {reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div
+                    className={cn(
+                      "pt-4 border-t border-primary/20 space-y-3",
+                      walkPlan.safety && !walkPlan.safety.recommended && "opacity-70",
+                    )}
+                  >
                     <div className="p-4 bg-amber-50/50 dark:bg-amber-950/20 border-2 border-yellow-600/50 dark:border-yellow-700/40 rounded-lg space-y-3">
                       <div>
-                        <h4 className="font-semibold text-base mb-1">What to Wear</h4>
+                        <h4 className="font-semibold text-base mb-1">
+                          {walkPlan.safety && !walkPlan.safety.recommended ? "If You Go Anyway" : "What to Wear"}
+                        </h4>
                         <p className="text-sm text-muted-foreground text-pretty">
-                          Based on the weather conditions, here's what we recommend:
+                          Based on the coldest, wettest, windiest point of your walk, here's what we recommend:
                         </p>
                       </div>
 
@@ -915,6 +1839,12 @@ export function SunsetWalkPlanner() {
                               </span>
                             ))}
                           </div>
+                          {walkPlan.surfaceCondition && walkPlan.surfaceCondition.condition !== "dry" && (
+                            <p className="text-xs text-muted-foreground mt-2 text-pretty">
+                              Ground: {SURFACE_LABELS[walkPlan.surfaceCondition.condition]}.{" "}
+                              {walkPlan.surfaceCondition.reason}
+                            </p>
+                          )}
                         </div>
 
                         <div>
@@ -930,6 +1860,12 @@ export function SunsetWalkPlanner() {
                             ))}
                           </div>
                         </div>
+
+                        {walkPlan.missingFromWardrobe && walkPlan.missingFromWardrobe.length > 0 && (
+                          <p className="text-xs text-muted-foreground text-pretty">
+                            Not in your wardrobe yet: {walkPlan.missingFromWardrobe.join(", ")}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -988,6 +1924,15 @@ export function SunsetWalkPlanner() {
                     <p className="text-sm leading-relaxed">{currentWeatherCheck.comparison.summary}</p>
                   </div>
 
+                  {currentWeatherCheck.rainNowcast && currentWeatherCheck.rainNowcast.status !== "dry" && (
+                    <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg flex gap-2">
+                      <span className="text-xl">
+                        {["partial", "noData"].includes(currentWeatherCheck.rainNowcast.status) ? "🕒" : "🌧️"}
+                      </span>
+                      <p className="text-sm leading-relaxed">{currentWeatherCheck.rainNowcast.message}</p>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <p className="text-muted-foreground">Current Temp</p>
@@ -1021,11 +1966,91 @@ export function SunsetWalkPlanner() {
                         {formatTemperature(currentWeatherCheck.granularFactors.windChill, temperatureUnit)}
                       </p>
                     </div>
+                    {currentWeatherCheck.granularFactors.heatRisk !== "none" && (
+                      <div>
+                        <p className="text-muted-foreground">Heat Index</p>
+                        <p
+                          className={cn(
+                            "font-medium",
+                            currentWeatherCheck.granularFactors.heatRisk === "danger" && "text-red-600 dark:text-red-400",
+                            currentWeatherCheck.granularFactors.heatRisk === "extremeCaution" &&
+                              "text-orange-600 dark:text-orange-400",
+                          )}
+                        >
+                          {formatTemperature(currentWeatherCheck.granularFactors.heatIndex, temperatureUnit)} (
+                          {currentWeatherCheck.granularFactors.heatRisk === "danger"
+                            ? "Danger"
+                            : currentWeatherCheck.granularFactors.heatRisk === "extremeCaution"
+                              ? "Extreme caution"
+                              : "Caution"}
+                          )
+                        </p>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-muted-foreground">Visibility</p>
+                      <p className="font-medium">
+                        {currentWeatherCheck.granularFactors.visibility}
+                        {currentWeatherCheck.granularFactors.visibilityMeters !== null && (
+                          <span className="text-muted-foreground font-normal">
+                            {" "}
+                            ({formatVisibility(currentWeatherCheck.granularFactors.visibilityMeters)})
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    {currentWeatherCheck.airQuality && (
+                      <div className="col-span-2">
+                        <p className="text-muted-foreground">Air Quality at Walk Time</p>
+                        <p className="font-medium">
+                          {currentWeatherCheck.airQuality.category} (US AQI {currentWeatherCheck.airQuality.usAqi})
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          PM2.5 {formatReading(currentWeatherCheck.airQuality.pm25, " μg/m³")} · Ozone{" "}
+                          {formatReading(currentWeatherCheck.airQuality.ozone, " μg/m³")} · European AQI{" "}
+                          {formatReading(currentWeatherCheck.airQuality.europeanAqi)}
+                        </p>
+                      </div>
+                    )}
                   </div>
 
+                  {currentWeatherCheck.airQuality && currentWeatherCheck.airQuality.recommendations.length > 0 && (
+                    <div className="p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg space-y-1">
+                      <p className="font-semibold text-sm">Air Quality Advice</p>
+                      <ul className="text-sm space-y-1">
+                        {currentWeatherCheck.airQuality.recommendations.map((recommendation, index) => (
+                          <li key={index}>• {recommendation}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {currentWeatherCheck.safety && !currentWeatherCheck.safety.recommended && (
+                    <div className="p-4 bg-red-50/70 dark:bg-red-950/20 border-2 border-red-500/50 dark:border-red-700/40 rounded-lg space-y-2">
+                      <p className="font-semibold text-red-700 dark:text-red-400 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Not safe to head out right now
+                      </p>
+                      <ul className="text-sm space-y-1">
+                        {currentWeatherCheck.safety.reasons.map((reason, index) => (
+                          <li key={index}>• {reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {currentWeatherCheck.updatedOutfit && (
-                    <div className="p-4 bg-accent/20 border border-accent rounded-lg space-y-3">
-                      <p className="font-semibold text-sm">Outfit Check</p>
+                    <div
+                      className={cn(
+                        "p-4 bg-accent/20 border border-accent rounded-lg space-y-3",
+                        currentWeatherCheck.safety && !currentWeatherCheck.safety.recommended && "opacity-70",
+                      )}
+                    >
+                      <p className="font-semibold text-sm">
+                        {currentWeatherCheck.safety && !currentWeatherCheck.safety.recommended
+                          ? "Outfit Check (if you go anyway)"
+                          : "Outfit Check"}
+                      </p>
                       <div className="text-sm space-y-2">
                         <p className="text-muted-foreground">Based on current conditions, here's what to wear:</p>
                         {currentWeatherCheck.updateDecision.shouldUpdate &&
@@ -1067,6 +2092,13 @@ export function SunsetWalkPlanner() {
                               </span>
                             ))}
                           </div>
+                          {currentWeatherCheck.surfaceCondition &&
+                            currentWeatherCheck.surfaceCondition.condition !== "dry" && (
+                              <p className="text-xs text-muted-foreground mt-1.5 text-pretty">
+                                Ground: {SURFACE_LABELS[currentWeatherCheck.surfaceCondition.condition]}.{" "}
+                                {currentWeatherCheck.surfaceCondition.reason}
+                              </p>
+                            )}
                         </div>
 
                         <div>
@@ -1082,6 +2114,13 @@ export function SunsetWalkPlanner() {
                             ))}
                           </div>
                         </div>
+
+                        {currentWeatherCheck.missingFromWardrobe &&
+                          currentWeatherCheck.missingFromWardrobe.length > 0 && (
+                            <p className="text-xs text-muted-foreground text-pretty">
+                              Not in your wardrobe yet: {currentWeatherCheck.missingFromWardrobe.join(", ")}
+                            </p>
+                          )}
                       </div>
                     </div>
                   )}
@@ -1089,6 +2128,38 @@ export function SunsetWalkPlanner() {
               </div>
             )}
 
+            <div className="p-4 border rounded-lg space-y-3">
+              <div>
+                <h4 className="font-semibold text-sm mb-1">Back from your walk?</h4>
+                <p className="text-sm text-muted-foreground text-pretty">
+                  Tell us how the outfit felt and future suggestions will adjust to you.
+                </p>
+              </div>
+              {walkRating ? (
+                <p className="text-sm text-pretty">Thanks! {describeComfortOffset(comfortProfile.offset)}.</p>
+              ) : !canRateWalk ? (
+                <p className="text-sm text-muted-foreground text-pretty">
+                  {walkEnd
+                    ? `You can rate the outfit once you're back, from ${walkEnd.format("h:mm A")}.`
+                    : "You can rate the outfit once you're back from your walk."}
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {COMFORT_RATING_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRateWalk(option.value)}
+                      className="bg-transparent"
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="p-6 bg-gradient-to-br from-lime-50 to-green-100 dark:from-lime-950/30 dark:to-green-900/30 border border-lime-600/70 dark:border-lime-600/50 rounded-lg space-y-3">
               <div className="flex items-center justify-center gap-2">
                 <Leaf className="h-6 w-6 text-lime-600 dark:text-lime-400 flex-shrink-0" />
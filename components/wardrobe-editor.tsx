@@ -0,0 +1,164 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { WardrobeCategory, WardrobeItem } from "@/lib/outfit"
+
+export const WARDROBE_STORAGE_KEY = "sunset-walk-planner:wardrobe"
+
+const CATEGORY_OPTIONS: { value: WardrobeCategory; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "jacket", label: "Jacket" },
+  { value: "shoes", label: "Shoes" },
+  { value: "hat", label: "Hat" },
+  { value: "gloves", label: "Gloves" },
+  { value: "scarf", label: "Scarf" },
+  { value: "umbrella", label: "Umbrella" },
+  { value: "cleats", label: "Cleats" },
+]
+
+const WARMTH_LABELS = ["", "Summer", "Light", "Medium", "Warm", "Deep winter"]
+
+export function loadWardrobe(): WardrobeItem[] {
+  try {
+    const saved = window.localStorage.getItem(WARDROBE_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveWardrobe(items: WardrobeItem[]) {
+  try {
+    window.localStorage.setItem(WARDROBE_STORAGE_KEY, JSON.stringify(items))
+  } catch (err) {
+    console.error("Failed to save wardrobe:", err)
+  }
+}
+
+export function WardrobeEditor({
+  items,
+  onChange,
+}: {
+  items: WardrobeItem[]
+  onChange: (items: WardrobeItem[]) => void
+}) {
+  const [name, setName] = useState("")
+  const [category, setCategory] = useState<WardrobeCategory>("jacket")
+  const [warmth, setWarmth] = useState(3)
+  const [waterproof, setWaterproof] = useState(false)
+  const [windproof, setWindproof] = useState(false)
+
+  const handleAdd = () => {
+    const trimmed = name.trim()
+    if (trimmed.length === 0) return
+
+    onChange([...items, { id: `${Date.now()}`, name: trimmed.slice(0, 80), category, warmth, waterproof, windproof }])
+    setName("")
+    setWaterproof(false)
+    setWindproof(false)
+  }
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg animate-in fade-in duration-300">
+      <p className="text-sm text-muted-foreground text-pretty">
+        Add the clothes you own and outfit suggestions will pick from them, falling back to a general suggestion when
+        nothing fits. Saved in this browser only.
+      </p>
+
+      {items.length > 0 && (
+        <ul className="space-y-1.5">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{item.name}</span>
+              <span className="text-muted-foreground">
+                {CATEGORY_OPTIONS.find((option) => option.value === item.category)?.label} ·{" "}
+                {WARMTH_LABELS[item.warmth]}
+                {item.waterproof && " · waterproof"}
+                {item.windproof && " · windproof"}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-7 w-7 p-0"
+                onClick={() => onChange(items.filter((other) => other.id !== item.id))}
+                aria-label={`Remove ${item.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="wardrobeItemName" className="text-sm">
+          Item
+        </Label>
+        <Input
+          id="wardrobeItemName"
+          placeholder="e.g. grey Patagonia shell"
+          value={name}
+          maxLength={80}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        />
+        <div className="grid grid-cols-4 gap-2">
+          {CATEGORY_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              variant={category === option.value ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setCategory(option.value)}
+              className={cn(category !== option.value && "bg-transparent")}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2 items-center text-sm">
+          <span className="text-muted-foreground">Warmth:</span>
+          {[1, 2, 3, 4, 5].map((level) => (
+            <Button
+              key={level}
+              variant={warmth === level ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setWarmth(level)}
+              title={WARMTH_LABELS[level]}
+            >
+              {level}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-4 text-sm text-muted-foreground">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={waterproof}
+              onChange={(e) => setWaterproof(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            Waterproof
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={windproof}
+              onChange={(e) => setWindproof(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            Windproof
+          </label>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={name.trim().length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add to wardrobe
+        </Button>
+      </div>
+    </div>
+  )
+}
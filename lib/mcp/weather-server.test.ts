@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getAirQuality, getPrecipitationNowcast } from "./weather-server"
+import airQualityResponse from "./fixtures/synthetic-air-quality.json"
+
+// A synthetic air quality response, hand-written in Open-Meteo's format rather than recorded: a smoky day (UTC hours)
+// that steps through each US AQI category boundary, with the kind of gaps the model leaves
+const LOCATION = { lat: 53.55, lon: -113.5 }
+
+describe("getAirQuality", () => {
+  beforeEach(() => {
+    vi.stubEnv("WEATHER_PROVIDER", "open-meteo")
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(airQualityResponse))))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("reads the hour the walk starts in", async () => {
+    const airQuality = await getAirQuality({ ...LOCATION, time: "2025-08-14T07:40:00Z" })
+
+    expect(airQuality).toEqual({
+      usAqi: 92,
+      europeanAqi: 64,
+      pm25: 30.1,
+      ozone: 77,
+      category: "Moderate",
+      recommendations: ["Air quality is acceptable, but unusually sensitive people may want a shorter walk."],
+    })
+  })
+
+  it.each([
+    ["03:00", 50, "Good"],
+    ["04:00", 51, "Moderate"],
+    ["08:00", 100, "Moderate"],
+    ["09:00", 101, "Unhealthy for Sensitive Groups"],
+    ["11:00", 150, "Unhealthy for Sensitive Groups"],
+    ["12:00", 151, "Unhealthy"],
+    ["14:00", 200, "Unhealthy"],
+    ["15:00", 201, "Very Unhealthy"],
+    ["17:00", 300, "Very Unhealthy"],
+    ["18:00", 301, "Hazardous"],
+  ])("maps the US AQI at %s (%i) to %s", async (hour, usAqi, category) => {
+    const airQuality = await getAirQuality({ ...LOCATION, time: `2025-08-14T${hour}:00Z` })
+
+    expect(airQuality.usAqi).toBe(usAqi)
+    expect(airQuality.category).toBe(category)
+  })
+
+  it("has no advice when the air is good", async () => {
+    const airQuality = await getAirQuality({ ...LOCATION, time: "2025-08-14T00:15:00Z" })
+
+    expect(airQuality.recommendations).toEqual([])
+  })
+
+  it("tells everyone to skip the walk when it's hazardous", async () => {
+    const airQuality = await getAirQuality({ ...LOCATION, time: "2025-08-14T18:00:00Z" })
+
+    expect(airQuality.recommendations).toEqual([
+      "Air quality is unhealthy for everyone. Skip the walk or walk indoors.",
+    ])
+  })
+
+  it("leaves out pollutant readings the model is missing", async () => {
+    const airQuality = await getAirQuality({ ...LOCATION, time: "2025-08-14T21:30:00Z" })
+
+    expect(airQuality).toMatchObject({ usAqi: 187, category: "Unhealthy", pm25: null, ozone: 71 })
+  })
+
+  it("fails rather than reporting good air when the AQI is missing", async () => {
+    await expect(getAirQuality({ ...LOCATION, time: "2025-08-14T19:00:00Z" })).rejects.toThrow(
+      "No air quality forecast",
+    )
+  })
+
+  it("fails for a walk after the end of the forecast", async () => {
+    await expect(getAirQuality({ ...LOCATION, time: "2025-08-15T06:00:00Z" })).rejects.toThrow(
+      "No air quality forecast",
+    )
+  })
+})
+
+describe("getPrecipitationNowcast", () => {
+  // Six dry hours of 15-minute slots from 18:00 UTC, in Open-Meteo's format
+  const nowcastResponse = {
+    minutely_15: {
+      time: Array.from({ length: 24 }, (_, index) =>
+        new Date(Date.UTC(2025, 7, 14, 18, index * 15)).toISOString().slice(0, 16),
+      ),
+      precipitation: Array.from({ length: 24 }, () => 0),
+    },
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("WEATHER_PROVIDER", "open-meteo")
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(nowcastResponse))))
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it("calls a walk inside the nowcast dry", async () => {
+    const nowcast = await getPrecipitationNowcast({
+      ...LOCATION,
+      walkStart: "2025-08-14T19:00:00Z",
+      walkDurationMinutes: 60,
+    })
+
+    expect(nowcast.status).toBe("dry")
+  })
+
+  it("only vouches for the part of the walk the nowcast covers", async () => {
+    const nowcast = await getPrecipitationNowcast({
+      ...LOCATION,
+      walkStart: "2025-08-14T23:00:00Z",
+      walkDurationMinutes: 90,
+    })
+
+    expect(nowcast).toEqual({
+      status: "partial",
+      message:
+        "No rain expected between 11:00 PM and 12:00 AM, but the nowcast doesn't cover the rest of your walk. " +
+        "Check again closer to the time.",
+    })
+  })
+
+  it("says so when the walk is past the end of the nowcast", async () => {
+    const nowcast = await getPrecipitationNowcast({
+      ...LOCATION,
+      walkStart: "2025-08-15T01:00:00Z",
+      walkDurationMinutes: 60,
+    })
+
+    expect(nowcast.status).toBe("noData")
+  })
+})
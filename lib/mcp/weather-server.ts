@@ -2,6 +2,11 @@
 // Provides tools for real-time weather checking and outfit recommendation updates
 
 import { z } from "zod"
+import moment from "moment-timezone"
+import { getHeatRisk } from "@/lib/utils/heat"
+import { getWeatherClient } from "@/lib/weather"
+import { addObservation, getLocationKey, readObservations } from "@/lib/weather/bias-store"
+import { fromCelsius, fromKmh, toCelsius, toKmh } from "@/lib/weather/units"
 
 // Tool schemas
 export const getCurrentConditionsSchema = z.object({
@@ -26,6 +31,73 @@ export const getGranularWeatherFactorsSchema = z.object({
   tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
 })
 
+export const getPrecipitationNowcastSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  walkStart: z.string(), // ISO timestamp
+  walkDurationMinutes: z.number(),
+  timezone: z.string().optional(),
+})
+
+export const getAirQualitySchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  time: z.string().optional(), // ISO timestamp, defaults to now
+})
+
+export const assessWalkSafetySchema = z.object({
+  minTemperature: z.number(),
+  maxTemperature: z.number(),
+  windGusts: z.number(),
+  weatherCodes: z.array(z.number()),
+  tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
+  speedUnit: z.enum(["kmh", "mph"]).optional(),
+})
+
+export const assessHeatRiskSchema = z.object({
+  temperature: z.number(),
+  humidity: z.number(),
+  tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
+})
+
+export const assessSurfaceConditionSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  time: z.string().optional(), // ISO timestamp of the walk, defaults to now
+})
+
+export const getClimateContextSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  date: z.string(), // "YYYY-MM-DD"
+  forecastTemperature: z.number(), // Mean over the day
+  forecastPrecipitation: z.number(), // mm over the day
+  tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
+})
+
+export const recordForecastErrorSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  hour: z.number(), // Local hour the forecast was for
+  leadTimeHours: z.number(),
+  forecastTemp: z.number(),
+  actualTemp: z.number(),
+  forecastWindSpeed: z.number(),
+  actualWindSpeed: z.number(),
+  tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
+  forecastSpeedUnit: z.enum(["kmh", "mph"]).optional(),
+  actualSpeedUnit: z.enum(["kmh", "mph"]).optional(),
+})
+
+export const getForecastBiasSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  hour: z.number(), // Local hour of the walk
+  leadTimeHours: z.number(), // How far ahead of the walk the forecast is being made
+  tempUnit: z.enum(["celsius", "fahrenheit"]).optional(),
+  speedUnit: z.enum(["kmh", "mph"]).optional(),
+})
+
 export const shouldUpdateOutfitSchema = z.object({
   originalTemp: z.number(),
   currentTemp: z.number(),
@@ -43,35 +115,16 @@ export async function getCurrentConditions(params: z.infer<typeof getCurrentCond
     // Use the correct temperature and speed units
     const speedUnit = tempUnit === "celsius" ? "kmh" : "mph"
 
-    // Fetch current weather from Open-Meteo API
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,precipitation,wind_speed_10m,weather_code,relative_humidity_2m,apparent_temperature&temperature_unit=${tempUnit}&wind_speed_unit=${speedUnit}&timezone=auto`
-
-    console.log("[v0] Fetching current weather from URL:", url)
-
-    const response = await fetch(url)
-
-    console.log("[v0] Response status:", response.status)
-    console.log("[v0] Response ok:", response.ok)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.log("[v0] Error response body:", errorText)
-      throw new Error(`Failed to fetch current weather: ${response.status} ${errorText}`)
-    }
-
-    const data = await response.json()
-    console.log("[v0] Current weather data received:", JSON.stringify(data, null, 2))
-
-    const current = data.current
+    const current = await getWeatherClient().getCurrentWeather({ lat, lon, tempUnit, speedUnit })
 
     return {
-      temperature: Math.round(current.temperature_2m),
-      apparentTemperature: Math.round(current.apparent_temperature),
-      precipitation: current.precipitation || 0,
-      windSpeed: Math.round(current.wind_speed_10m),
-      humidity: current.relative_humidity_2m,
-      condition: getWeatherCondition(current.weather_code),
-      weatherCode: current.weather_code,
+      temperature: Math.round(current.temperature),
+      apparentTemperature: Math.round(current.apparentTemperature),
+      precipitation: current.precipitation,
+      windSpeed: Math.round(current.windSpeed),
+      humidity: current.humidity,
+      condition: getWeatherCondition(current.weatherCode),
+      weatherCode: current.weatherCode,
       timestamp: current.time,
     }
   } catch (error) {
@@ -143,37 +196,447 @@ export async function getGranularWeatherFactors(params: z.infer<typeof getGranul
     // Use the correct temperature and speed units
     const speedUnit = tempUnit === "celsius" ? "kmh" : "mph"
 
-    // Fetch detailed weather data including UV, air quality, etc.
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,cloud_cover,wind_speed_10m,wind_direction_10m,wind_gusts_10m&hourly=uv_index&temperature_unit=${tempUnit}&wind_speed_unit=${speedUnit}&timezone=auto`
+    // Detailed current conditions including UV and visibility
+    const current = await getWeatherClient().getCurrentWeather({ lat, lon, tempUnit, speedUnit })
+    const visibilityMeters = current.visibility
+
+    // Calculate wind chill and heat index (work with both Celsius and Fahrenheit)
+    const windChill = calculateWindChill(current.temperature, current.windSpeed, tempUnit)
+    const heatRisk = assessHeatRisk({ temperature: current.temperature, humidity: current.humidity, tempUnit })
 
-    const response = await fetch(url)
-    if (!response.ok) {
-      throw new Error("Failed to fetch granular weather data")
+    let airQuality = "Unknown"
+    try {
+      airQuality = (await getAirQuality({ lat, lon })).category
+    } catch (error) {
+      console.error("Error fetching air quality for granular factors:", error)
     }
 
-    const data = await response.json()
-    const current = data.current
+    return {
+      windChill: Math.round(windChill),
+      heatIndex: heatRisk.heatIndex,
+      heatRisk: heatRisk.tier,
+      humidity: current.humidity,
+      uvIndex: Math.round(current.uvIndex * 10) / 10,
+      cloudCover: current.cloudCover,
+      windDirection: current.windDirection,
+      windGusts: Math.round(current.windGusts),
+      feelsLike: Math.round(current.apparentTemperature),
+      visibility: visibilityMeters === null ? "Unknown" : classifyVisibility(visibilityMeters),
+      visibilityMeters: visibilityMeters === null ? null : Math.round(visibilityMeters),
+      airQuality,
+    }
+  } catch (error) {
+    console.error("Error fetching granular weather factors:", error)
+    throw error
+  }
+}
 
-    // Get current hour's UV index
-    const currentHour = new Date().getHours()
-    const uvIndex = data.hourly.uv_index[currentHour] || 0
+// MCP Tool: Get Air Quality for the Walk Time
+export async function getAirQuality(params: z.infer<typeof getAirQualitySchema>) {
+  const { lat, lon, time = new Date().toISOString() } = params
+
+  try {
+    // Hourly times are UTC so the walk time can be matched without knowing the city's timezone
+    const hourly = await getWeatherClient().getAirQuality({ lat, lon })
+
+    const targetHour = new Date(time)
+    targetHour.setUTCMinutes(0, 0, 0)
+    const i = hourly.time.findIndex((t) => new Date(t).getTime() === targetHour.getTime())
+
+    // A missing AQI would otherwise read as 0, i.e. "Good", so there's no answer rather than a wrong one
+    const rawUsAqi = i >= 0 ? hourly.usAqi[i] : null
+    if (rawUsAqi === null) {
+      throw new Error(`No air quality forecast for ${targetHour.toISOString()}`)
+    }
 
-    // Calculate wind chill (works with both Celsius and Fahrenheit)
-    const windChill = calculateWindChill(current.temperature_2m, current.wind_speed_10m, tempUnit)
+    const usAqi = Math.round(rawUsAqi)
+    const round = (value: number | null, factor = 1) => (value === null ? null : Math.round(value * factor) / factor)
 
     return {
-      windChill: Math.round(windChill),
-      humidity: current.relative_humidity_2m,
-      uvIndex: Math.round(uvIndex * 10) / 10,
-      cloudCover: current.cloud_cover,
-      windDirection: current.wind_direction_10m,
-      windGusts: Math.round(current.wind_gusts_10m),
-      feelsLike: Math.round(current.apparent_temperature),
-      visibility: "Good", // Open-Meteo doesn't provide this in free tier
-      airQuality: "Moderate", // Would need separate API for real AQI
+      usAqi,
+      europeanAqi: round(hourly.europeanAqi[i]),
+      pm25: round(hourly.pm25[i], 10), // μg/m³
+      ozone: round(hourly.ozone[i]), // μg/m³
+      category: getAqiCategory(usAqi),
+      recommendations: getAirQualityRecommendations(usAqi),
     }
   } catch (error) {
-    console.error("Error fetching granular weather factors:", error)
+    console.error("Error fetching air quality:", error)
+    throw error
+  }
+}
+
+// MCP Tool: Nowcast Rain Starting or Stopping During the Walk
+export async function getPrecipitationNowcast(params: z.infer<typeof getPrecipitationNowcastSchema>) {
+  const { lat, lon, walkStart, walkDurationMinutes, timezone = "UTC" } = params
+
+  try {
+    // 15-minute precipitation for the next 6 hours
+    const nowcast = await getWeatherClient().getPrecipitationNowcast({ lat, lon })
+    const slots = nowcast.time.map((t, index) => ({
+      time: new Date(t).getTime(),
+      wet: nowcast.precipitation[index] >= RAIN_THRESHOLD_MM,
+    }))
+
+    const slotMs = 15 * 60 * 1000
+    const startMs = new Date(walkStart).getTime()
+    const endMs = startMs + walkDurationMinutes * 60 * 1000
+    const walkSlots = slots.filter((slot) => slot.time + slotMs > startMs && slot.time < endMs)
+
+    const formatTime = (timeMs: number) =>
+      new Date(timeMs).toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+        timeZone: timezone,
+      })
+
+    // The nowcast only reaches a few hours ahead, so a later or longer walk can run past its last slot
+    if (walkSlots.length === 0) {
+      return {
+        status: "noData" as const,
+        message: "The rain nowcast doesn't reach your walk yet. Check again closer to the time.",
+      }
+    }
+
+    if (walkSlots.every((slot) => !slot.wet)) {
+      const coveredFrom = Math.max(startMs, walkSlots[0].time)
+      const coveredUntil = Math.min(endMs, walkSlots[walkSlots.length - 1].time + slotMs)
+      if (coveredFrom > startMs || coveredUntil < endMs) {
+        return {
+          status: "partial" as const,
+          message: `No rain expected between ${formatTime(coveredFrom)} and ${formatTime(coveredUntil)}, but the nowcast doesn't cover the rest of your walk. Check again closer to the time.`,
+        }
+      }
+      return { status: "dry" as const, message: "No rain expected during your walk." }
+    }
+
+    if (!walkSlots[0].wet) {
+      // Dry at the start, but rain arrives partway through
+      const rainStartsAt = walkSlots.find((slot) => slot.wet)!.time
+      const minutesIn = Math.max(0, Math.round((rainStartsAt - startMs) / 60000))
+      const suggestedShiftMinutes = -Math.round((endMs - rainStartsAt) / 60000)
+
+      // Leaving earlier is no use if that time has already passed, so suggest a shorter walk or waiting it out
+      if (startMs + suggestedShiftMinutes * 60000 <= Date.now()) {
+        const rainStopsSlot = slots.find((slot) => slot.time > rainStartsAt && !slot.wet)
+        const options = [
+          minutesIn >= MIN_SHORTENED_WALK_MINUTES ? `keep your walk to about ${minutesIn} minutes` : null,
+          rainStopsSlot ? `wait until it stops around ${formatTime(rainStopsSlot.time)}` : null,
+        ].filter(Boolean)
+
+        return {
+          status: "rainStarting" as const,
+          rainStartsAt: formatTime(rainStartsAt),
+          rainStopsAt: rainStopsSlot ? formatTime(rainStopsSlot.time) : undefined,
+          suggestedDurationMinutes: minutesIn >= MIN_SHORTENED_WALK_MINUTES ? minutesIn : undefined,
+          message: `Rain is expected to start about ${minutesIn} minutes into your walk (around ${formatTime(rainStartsAt)}). It's too late to leave early enough to miss it, so ${options.length > 0 ? options.join(" or ") : "dress for the wet"}.`,
+        }
+      }
+
+      return {
+        status: "rainStarting" as const,
+        rainStartsAt: formatTime(rainStartsAt),
+        suggestedShiftMinutes,
+        message: `Rain is expected to start about ${minutesIn} minutes into your walk (around ${formatTime(rainStartsAt)}). Leaving ${Math.abs(suggestedShiftMinutes)} minutes earlier would get you home before it starts.`,
+      }
+    }
+
+    // Wet at the start: see whether it clears up soon
+    const clearSlot = slots.find((slot) => slot.time > startMs && !slot.wet)
+    if (!clearSlot) {
+      return {
+        status: "raining" as const,
+        message: "Rain is expected for your whole walk and beyond. Dress for the wet or consider another time.",
+      }
+    }
+
+    const suggestedShiftMinutes = Math.round((clearSlot.time - startMs) / 60000)
+    return {
+      status: "rainStopping" as const,
+      rainStopsAt: formatTime(clearSlot.time),
+      suggestedShiftMinutes,
+      message: `Rain is expected to stop around ${formatTime(clearSlot.time)}. Leaving ${suggestedShiftMinutes} minutes later would keep you drier.`,
+    }
+  } catch (error) {
+    console.error("Error fetching precipitation nowcast:", error)
+    throw error
+  }
+}
+
+// MCP Tool: Go/No-Go Safety Check
+// Flags conditions where no outfit makes the walk a good idea: lightning, damaging gusts,
+// extreme heat or cold, and freezing rain
+export function assessWalkSafety(params: z.infer<typeof assessWalkSafetySchema>) {
+  const { minTemperature, maxTemperature, windGusts, weatherCodes, tempUnit = "fahrenheit", speedUnit = "mph" } = params
+
+  const isCelsius = tempUnit === "celsius"
+  const isKmh = speedUnit === "kmh"
+
+  const EXTREME_HEAT = isCelsius ? 35 : 95 // 95°F = 35°C
+  const EXTREME_COLD = isCelsius ? -18 : 0 // 0°F = -18°C
+  const DAMAGING_GUSTS = isKmh ? 64 : 40 // 40 mph = 64 km/h
+
+  const tempSymbol = isCelsius ? "°C" : "°F"
+  const speedLabel = isKmh ? "km/h" : "mph"
+
+  const reasons: string[] = []
+
+  if (weatherCodes.some((code) => THUNDERSTORM_CODES.includes(code))) {
+    reasons.push(
+      "Thunderstorms are forecast. There's no safe outfit for lightning, so wait until 30 minutes after the last thunder.",
+    )
+  }
+  if (weatherCodes.some((code) => FREEZING_RAIN_CODES.includes(code))) {
+    reasons.push("Freezing rain or drizzle is forecast, which can glaze sidewalks with ice.")
+  }
+  if (windGusts >= DAMAGING_GUSTS) {
+    reasons.push(
+      `Wind gusts up to ${Math.round(windGusts)} ${speedLabel} can bring down branches and make walking unsafe.`,
+    )
+  }
+  if (maxTemperature >= EXTREME_HEAT) {
+    reasons.push(`It will reach ${Math.round(maxTemperature)}${tempSymbol}, high enough to risk heat exhaustion.`)
+  }
+  if (minTemperature <= EXTREME_COLD) {
+    reasons.push(
+      `It will drop to ${Math.round(minTemperature)}${tempSymbol}, cold enough for frostbite on exposed skin.`,
+    )
+  }
+
+  return {
+    recommended: reasons.length === 0,
+    status: reasons.length === 0 ? "go" : "notRecommended",
+    reasons,
+  }
+}
+
+// MCP Tool: Heat Index and Heat-Risk Tier
+export function assessHeatRisk(params: z.infer<typeof assessHeatRiskSchema>) {
+  const { temperature, humidity, tempUnit = "fahrenheit" } = params
+  return getHeatRisk(temperature, humidity, tempUnit)
+}
+
+// MCP Tool: Estimate Ground Conditions Underfoot
+// Looks back over the hours before the walk for rain, snow, and temperatures crossing 0°C
+export async function assessSurfaceCondition(params: z.infer<typeof assessSurfaceConditionSchema>) {
+  const { lat, lon, time = new Date().toISOString() } = params
+
+  try {
+    const history = await getWeatherClient().getSurfaceWeather({ lat, lon })
+
+    const hourMs = 60 * 60 * 1000
+    const walkMs = new Date(time).getTime()
+    const times = history.time.map((t) => new Date(t).getTime())
+
+    // The hour the walk starts in, or the last hour we have data for
+    let nowIndex = times.findIndex((t) => t + hourMs > walkMs)
+    if (nowIndex < 0) nowIndex = times.length - 1
+
+    const lookback = (hours: number) => {
+      const indices: number[] = []
+      for (let i = Math.max(0, nowIndex - hours + 1); i <= nowIndex; i++) indices.push(i)
+      return indices
+    }
+    const sum = (values: number[], indices: number[]) => indices.reduce((total, i) => total + (values[i] || 0), 0)
+
+    const last6Hours = lookback(6)
+    const last12Hours = lookback(12)
+
+    const temperature = history.temperature[nowIndex]
+    const snowDepth = history.snowDepth[nowIndex] || 0
+    const recentRain = sum(history.precipitation, last6Hours)
+    const rainSinceThaw = sum(history.precipitation, last12Hours)
+    const recentSnow = sum(history.snowfall, last12Hours)
+    const thawedRecently = last12Hours.some((i) => history.temperature[i] > THAW_C)
+
+    let condition: "dry" | "wet" | "slushy" | "icyRisk" | "packedSnow" = "dry"
+    let reason = "No rain or snow in the last few hours, so the ground should be dry."
+
+    if (snowDepth >= SNOW_COVER_M || recentSnow >= FRESH_SNOW_CM) {
+      if (temperature > THAW_C) {
+        condition = "slushy"
+        reason = "Snow on the ground is melting above freezing, so expect slush and puddles."
+      } else if (thawedRecently) {
+        condition = "icyRisk"
+        reason = "Snow thawed earlier and has refrozen, so packed trails and sidewalks may be glazed with ice."
+      } else {
+        condition = "packedSnow"
+        reason = "Snow is on the ground and it's stayed below freezing, so paths will be snow-packed."
+      }
+    } else if (temperature <= 0 && rainSinceThaw >= WET_GROUND_MM) {
+      condition = "icyRisk"
+      reason = "It rained in the last 12 hours and it's now at or below 0°C, so watch for black ice."
+    } else if (recentRain >= WET_GROUND_MM) {
+      condition = "wet"
+      reason = "It rained in the last few hours, so expect wet pavement and puddles."
+    }
+
+    return {
+      condition,
+      reason,
+      footwear: SURFACE_FOOTWEAR[condition],
+    }
+  } catch (error) {
+    console.error("Error assessing surface condition:", error)
+    throw error
+  }
+}
+
+// MCP Tool: How Typical Is the Forecast for the Time of Year
+// Compares the forecast day with the 1991-2020 normal for the same stretch of the calendar. Both sides are
+// daily means, since the archive has no reliable evening-only normal.
+export async function getClimateContext(params: z.infer<typeof getClimateContextSchema>) {
+  const { lat, lon, date, forecastTemperature, forecastPrecipitation, tempUnit = "fahrenheit" } = params
+
+  try {
+    const archive = await getWeatherClient().getDailyArchive({
+      lat,
+      lon,
+      tempUnit,
+      startDate: `${CLIMATE_FIRST_YEAR}-01-01`,
+      endDate: `${CLIMATE_LAST_YEAR}-12-31`,
+    })
+
+    // Every day within a week either side of the date, in each year of the normal period
+    const indexByDate = new Map(archive.time.map((t, i) => [t, i]))
+    const day = moment.utc(date)
+    const temperatures: number[] = []
+    const precipitation: number[] = []
+
+    for (let year = CLIMATE_FIRST_YEAR; year <= CLIMATE_LAST_YEAR; year++) {
+      const anniversary = day.clone().year(year)
+      for (let offset = -CLIMATE_WINDOW_DAYS; offset <= CLIMATE_WINDOW_DAYS; offset++) {
+        const i = indexByDate.get(anniversary.clone().add(offset, "days").format("YYYY-MM-DD"))
+        if (i === undefined) continue
+        if (!Number.isNaN(archive.temperatureMean[i])) temperatures.push(archive.temperatureMean[i])
+        if (!Number.isNaN(archive.precipitation[i])) precipitation.push(archive.precipitation[i])
+      }
+    }
+
+    if (temperatures.length === 0 || precipitation.length === 0) {
+      throw new Error(`No archive data around ${date}`)
+    }
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+    const normalTemperature = average(temperatures)
+    const normalPrecipitation = average(precipitation)
+    const wetDayShare = precipitation.filter((mm) => mm >= WET_DAY_MM).length / precipitation.length
+
+    const temperatureAnomaly = Math.round(forecastTemperature - normalTemperature)
+    const typicalBand = tempUnit === "celsius" ? 2 : 4
+
+    let precipitationComparison: "wetter" | "drier" | "typical" = "typical"
+    if (forecastPrecipitation >= WET_DAY_MM && forecastPrecipitation >= normalPrecipitation * 2) {
+      precipitationComparison = "wetter"
+    } else if (forecastPrecipitation < WET_DAY_MM && wetDayShare >= 0.5) {
+      // Only worth mentioning where most days at this time of year see rain
+      precipitationComparison = "drier"
+    }
+
+    const period = getCalendarPeriod(day)
+    const isTypicalTemperature = Math.abs(temperatureAnomaly) < typicalBand
+
+    let message = isTypicalTemperature
+      ? `About as ${normalTemperature < (tempUnit === "celsius" ? 10 : 50) ? "cool" : "warm"} as usual for ${period}`
+      : `${Math.abs(temperatureAnomaly)}° ${temperatureAnomaly < 0 ? "colder" : "warmer"} than usual for ${period}`
+    if (precipitationComparison !== "typical") {
+      message += `, ${isTypicalTemperature ? "but" : "and"} ${precipitationComparison} than usual`
+    }
+
+    return {
+      forecastTemperature: Math.round(forecastTemperature),
+      normalTemperature: Math.round(normalTemperature),
+      temperatureAnomaly,
+      forecastPrecipitation: Math.round(forecastPrecipitation * 10) / 10,
+      normalPrecipitation: Math.round(normalPrecipitation * 10) / 10,
+      precipitationComparison,
+      period,
+      message,
+    }
+  } catch (error) {
+    console.error("Error fetching climate context:", error)
+    throw error
+  }
+}
+
+// MCP Tool: Remember How Far Off the Forecast Was
+export async function recordForecastError(params: z.infer<typeof recordForecastErrorSchema>) {
+  const {
+    lat,
+    lon,
+    hour,
+    leadTimeHours,
+    forecastTemp,
+    actualTemp,
+    forecastWindSpeed,
+    actualWindSpeed,
+    tempUnit = "fahrenheit",
+    forecastSpeedUnit = "mph",
+    actualSpeedUnit = "mph",
+  } = params
+
+  try {
+    await addObservation({
+      location: getLocationKey(lat, lon),
+      hour,
+      leadTimeHours: Math.round(leadTimeHours * 10) / 10,
+      temperatureError: round2(toCelsius(actualTemp, tempUnit) - toCelsius(forecastTemp, tempUnit)),
+      windSpeedError: round2(toKmh(actualWindSpeed, actualSpeedUnit) - toKmh(forecastWindSpeed, forecastSpeedUnit)),
+      recordedAt: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("Error recording forecast error:", error)
+    throw error
+  }
+}
+
+// MCP Tool: Typical Forecast Error for This City, Time of Day and Lead Time
+// Averages past checks within an hour of the walk time, preferring ones made a similar time ahead.
+// Returns null until there are enough checks to be worth acting on.
+export async function getForecastBias(params: z.infer<typeof getForecastBiasSchema>) {
+  const { lat, lon, hour, leadTimeHours, tempUnit = "fahrenheit", speedUnit = "mph" } = params
+
+  try {
+    const observations = await readObservations(getLocationKey(lat, lon))
+
+    const nearHour = observations.filter((observation) => {
+      const distance = Math.abs(observation.hour - hour)
+      return Math.min(distance, 24 - distance) <= BIAS_HOUR_WINDOW
+    })
+    const sameLeadTime = nearHour.filter(
+      (observation) => getLeadTimeBucket(observation.leadTimeHours) === getLeadTimeBucket(leadTimeHours),
+    )
+    const samples = sameLeadTime.length >= MIN_BIAS_SAMPLES ? sameLeadTime : nearHour
+
+    if (samples.length < MIN_BIAS_SAMPLES) {
+      return null
+    }
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+    const temperatureBiasCelsius = average(samples.map((observation) => observation.temperatureError))
+    const windSpeedBiasKmh = average(samples.map((observation) => observation.windSpeedError))
+
+    // Differences scale by 9/5 but don't take the 32° offset
+    const temperature = fromCelsius(temperatureBiasCelsius, tempUnit) - fromCelsius(0, tempUnit)
+    const windSpeed = fromKmh(windSpeedBiasKmh, speedUnit)
+    const roundedTemperature = Math.round(temperature)
+
+    // A negative error means it turned out colder than forecast, i.e. forecasts run warm
+    let message: string | null = null
+    if (Math.abs(roundedTemperature) >= 1) {
+      const direction = roundedTemperature < 0 ? "warm" : "cool"
+      message = `Forecasts here usually run ${Math.abs(roundedTemperature)}° ${direction} ${getTimeOfDayLabel(hour)}`
+    }
+
+    return {
+      temperature: Math.round(temperature * 10) / 10,
+      windSpeed: Math.round(windSpeed * 10) / 10,
+      sampleCount: samples.length,
+      message,
+    }
+  } catch (error) {
+    console.error("Error reading forecast bias:", error)
     throw error
   }
 }
@@ -215,7 +678,38 @@ export function shouldUpdateOutfit(params: z.infer<typeof shouldUpdateOutfitSche
 
 // Helper Functions
 
-function getWeatherCondition(code: number): string {
+const RAIN_THRESHOLD_MM = 0.1 // Per 15 minutes; anything less is barely a drizzle
+const MIN_SHORTENED_WALK_MINUTES = 10 // Any shorter and it's not worth suggesting as a walk
+
+// Climate normal: the WMO standard 30-year period, a week either side of the date
+const CLIMATE_FIRST_YEAR = 1991
+const CLIMATE_LAST_YEAR = 2020
+const CLIMATE_WINDOW_DAYS = 7
+const WET_DAY_MM = 1 // The usual climatological cut-off for a "wet day"
+
+// Forecast bias: how many past checks it takes, and how close in time of day they must be
+const MIN_BIAS_SAMPLES = 3
+const BIAS_HOUR_WINDOW = 1
+
+// Surface condition thresholds
+const WET_GROUND_MM = 0.2 // Rain over the lookback window that leaves the ground wet
+const FRESH_SNOW_CM = 1
+const SNOW_COVER_M = 0.02
+const THAW_C = 1 // A degree of margin so readings hovering at 0°C don't count as a thaw
+
+export const SURFACE_FOOTWEAR: Record<string, string[]> = {
+  dry: [],
+  wet: ["Waterproof shoes or boots"],
+  slushy: ["Waterproof boots"],
+  icyRisk: ["Traction cleats", "Boots with deep tread"],
+  packedSnow: ["Insulated winter boots", "Traction cleats"],
+}
+
+// WMO weather codes
+const THUNDERSTORM_CODES = [95, 96, 99]
+const FREEZING_RAIN_CODES = [56, 57, 66, 67]
+
+export function getWeatherCondition(code: number): string {
   if (code === 0) return "Clear sky"
   if (code <= 3) return "Partly cloudy"
   if (code <= 48) return "Foggy"
@@ -227,6 +721,70 @@ function getWeatherCondition(code: number): string {
   return "Partly cloudy"
 }
 
+// Under 1 km is fog by the meteorological definition; under 5 km drivers start to struggle at dusk
+function classifyVisibility(meters: number): "Good" | "Reduced" | "Poor" {
+  if (meters < 1000) return "Poor"
+  if (meters < 5000) return "Reduced"
+  return "Good"
+}
+
+// "early October", "mid October", "late October"
+function getCalendarPeriod(day: moment.Moment): string {
+  const dayOfMonth = day.date()
+  const part = dayOfMonth <= 10 ? "early" : dayOfMonth <= 20 ? "mid" : "late"
+  return `${part} ${day.format("MMMM")}`
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function getLeadTimeBucket(hours: number): string {
+  if (hours < 6) return "sameEvening"
+  if (hours < 24) return "withinDay"
+  if (hours < 72) return "fewDays"
+  return "longRange"
+}
+
+function getTimeOfDayLabel(hour: number): string {
+  if (hour >= 4 && hour < 10) return "at dawn"
+  if (hour >= 16 && hour < 22) return "at dusk"
+  if (hour >= 22 || hour < 4) return "at night"
+  return "in the daytime"
+}
+
+// US EPA AQI categories
+function getAqiCategory(usAqi: number): string {
+  if (usAqi <= 50) return "Good"
+  if (usAqi <= 100) return "Moderate"
+  if (usAqi <= 150) return "Unhealthy for Sensitive Groups"
+  if (usAqi <= 200) return "Unhealthy"
+  if (usAqi <= 300) return "Very Unhealthy"
+  return "Hazardous"
+}
+
+function getAirQualityRecommendations(usAqi: number): string[] {
+  if (usAqi <= 50) {
+    return []
+  }
+  if (usAqi <= 100) {
+    return ["Air quality is acceptable, but unusually sensitive people may want a shorter walk."]
+  }
+  if (usAqi <= 150) {
+    return [
+      "People with asthma, heart or lung conditions, children, and older adults should shorten the walk or skip it.",
+      "Keep the pace easy to limit how much air you breathe in.",
+    ]
+  }
+  if (usAqi <= 200) {
+    return [
+      "Consider a shorter walk, and wear a well-fitted N95 or KN95 mask.",
+      "Sensitive groups should skip the walk today.",
+    ]
+  }
+  return ["Air quality is unhealthy for everyone. Skip the walk or walk indoors."]
+}
+
 function calculateWindChill(temp: number, windSpeed: number, unit = "fahrenheit"): number {
   if (unit === "celsius") {
     // Wind chill only applies below 10°C
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import { recommendOutfit, type OutfitWeather } from "."
+
+// Pins the rule table's output, so a rule or threshold change shows up as a snapshot diff to review
+
+const TEMPERATURES = [
+  { label: "freezing", celsius: -10, fahrenheit: 14 },
+  { label: "cold", celsius: 2, fahrenheit: 36 },
+  { label: "cool", celsius: 8, fahrenheit: 46 },
+  { label: "mild", celsius: 12, fahrenheit: 54 },
+  { label: "warm", celsius: 18, fahrenheit: 64 },
+  { label: "hot", celsius: 27, fahrenheit: 81 },
+]
+
+const WINDS = [
+  { label: "calm", kmh: 8, mph: 5 },
+  { label: "windy", kmh: 35, mph: 22 },
+]
+
+const PRECIPITATION: { label: string; weather: Pick<OutfitWeather, "condition" | "precipitationChance"> }[] = [
+  { label: "dry", weather: { condition: "Clear sky", precipitationChance: 0 } },
+  { label: "rain possible", weather: { condition: "Partly cloudy", precipitationChance: 30 } },
+  { label: "rain", weather: { condition: "Rainy", precipitationChance: 80 } },
+]
+
+const UNITS = [
+  { label: "metric", tempUnit: "celsius", speedUnit: "kmh" },
+  { label: "imperial", tempUnit: "fahrenheit", speedUnit: "mph" },
+] as const
+
+const GRID = UNITS.flatMap((unit) =>
+  TEMPERATURES.flatMap((temperature) =>
+    WINDS.flatMap((wind) =>
+      PRECIPITATION.map((precipitation): [string, OutfitWeather] => [
+        `${temperature.label}, ${wind.label}, ${precipitation.label} (${unit.label})`,
+        {
+          temperature: temperature[unit.tempUnit],
+          windSpeed: wind[unit.speedUnit],
+          ...precipitation.weather,
+          tempUnit: unit.tempUnit,
+          speedUnit: unit.speedUnit,
+        },
+      ]),
+    ),
+  ),
+)
+
+const COLD_WET_WINDY: OutfitWeather = {
+  temperature: 3,
+  condition: "Rainy",
+  windSpeed: 35,
+  precipitationChance: 80,
+  tempUnit: "celsius",
+  speedUnit: "kmh",
+}
+
+const MILD_DRY: OutfitWeather = {
+  temperature: 13,
+  condition: "Partly cloudy",
+  windSpeed: 10,
+  precipitationChance: 0,
+  tempUnit: "celsius",
+  speedUnit: "kmh",
+}
+
+describe("recommendOutfit", () => {
+  it.each(GRID)("%s", (_, weather) => {
+    expect(recommendOutfit(weather)).toMatchSnapshot()
+  })
+
+  it.each([
+    ["snow", { ...COLD_WET_WINDY, temperature: -3, condition: "Snowy", windSpeed: 10 }],
+    ["fog", { ...MILD_DRY, condition: "Foggy", visibility: 400 }],
+    ["haze", { ...MILD_DRY, visibility: 3000 }],
+    ["humid heat", { ...MILD_DRY, temperature: 33, condition: "Clear sky", humidity: 70 }],
+    ["icy ground", { ...COLD_WET_WINDY, surfaceFootwear: ["Traction cleats", "Boots with deep tread"] }],
+    ["measured rain rate", { ...MILD_DRY, precipitationChance: undefined, precipitationRate: 1.2 }],
+  ])("dresses for %s", (_, weather) => {
+    expect(recommendOutfit(weather)).toMatchSnapshot()
+  })
+
+  it.each([-5, -3, 3, 5, 10])("shifts the thresholds by a comfort offset of %i°C", (comfortOffset) => {
+    expect(recommendOutfit({ ...MILD_DRY, comfortOffset })).toMatchSnapshot()
+  })
+
+  it("applies a comfort offset in °F", () => {
+    const weather: OutfitWeather = { ...MILD_DRY, temperature: 55, windSpeed: 6, comfortOffset: -3 }
+
+    expect(recommendOutfit({ ...weather, tempUnit: "fahrenheit", speedUnit: "mph" })).toMatchSnapshot()
+  })
+
+  it.each(["stroll", "brisk", "hike", "run"] as const)("dresses for a %s in cold, wet, windy weather", (intensity) => {
+    expect(recommendOutfit({ ...COLD_WET_WINDY, intensity })).toMatchSnapshot()
+  })
+
+  it.each(["stroll", "brisk", "hike", "run"] as const)("dresses for a %s in mild, dry weather", (intensity) => {
+    expect(recommendOutfit({ ...MILD_DRY, intensity })).toMatchSnapshot()
+  })
+
+  it("combines a comfort offset with intensity", () => {
+    expect(recommendOutfit({ ...MILD_DRY, comfortOffset: -3, intensity: "run" })).toMatchSnapshot()
+  })
+})
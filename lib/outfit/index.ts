@@ -0,0 +1,63 @@
+// Outfit rules engine used by both the forecast and current-weather routes, so the two outfits only differ
+// when the weather does. The rules themselves live in ./rules.
+
+import { OUTFIT_RULES, resolveThresholds } from "./rules"
+import type { OutfitRecommendations, OutfitRule, OutfitSlot, OutfitWeather } from "./types"
+
+export { fitToWardrobe, parseWardrobe } from "./wardrobe"
+export { parseIntensity, type WalkIntensity } from "./intensity"
+export type {
+  FittedOutfit,
+  OutfitRecommendations,
+  OutfitRule,
+  OutfitSlot,
+  OutfitThresholds,
+  OutfitWeather,
+  WardrobeCategory,
+  WardrobeItem,
+} from "./types"
+
+// Keep each list short enough to read at a glance
+const SLOT_LIMITS: Record<OutfitSlot, number> = {
+  outerwear: 3,
+  shoes: 2,
+  accessories: 4,
+}
+
+const SLOTS = Object.keys(SLOT_LIMITS) as OutfitSlot[]
+
+export function recommendOutfit(weather: OutfitWeather, rules: OutfitRule[] = OUTFIT_RULES): OutfitRecommendations {
+  const thresholds = resolveThresholds(weather.tempUnit, weather.speedUnit, weather.comfortOffset, weather.intensity)
+  const matches = (rule: OutfitRule) => rule.when(weather, thresholds)
+
+  // Array.prototype.sort is stable, so equal priorities keep their table order
+  const applied = rules.filter((rule) => !rule.fallbackFor && matches(rule)).sort((a, b) => b.priority - a.priority)
+
+  const outfit: OutfitRecommendations = { outerwear: [], shoes: [], accessories: [] }
+  const underLayers: OutfitRecommendations = { outerwear: [], shoes: [], accessories: [] }
+  const add = (rule: OutfitRule, slot: OutfitSlot) => {
+    const items = rule.items[slot]
+    const resolved = typeof items === "function" ? items(weather) : (items ?? [])
+    const list = rule.underLayer ? underLayers[slot] : outfit[slot]
+    list.push(...resolved.filter((item) => !list.includes(item)))
+  }
+
+  for (const rule of applied) {
+    SLOTS.forEach((slot) => add(rule, slot))
+  }
+
+  for (const rule of rules) {
+    if (rule.fallbackFor && outfit[rule.fallbackFor].length === 0 && matches(rule)) {
+      add(rule, rule.fallbackFor)
+    }
+  }
+
+  // Under layers are listed first, as they're put on first, and sit outside the limits
+  const limit = (slot: OutfitSlot) => [...underLayers[slot], ...outfit[slot].slice(0, SLOT_LIMITS[slot])]
+
+  return {
+    outerwear: limit("outerwear"),
+    shoes: limit("shoes"),
+    accessories: limit("accessories"),
+  }
+}
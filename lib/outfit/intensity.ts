@@ -0,0 +1,30 @@
+// How hard the walker is going. Exertion makes it feel warmer than it is, so harder walks are dressed for
+// a warmer temperature. Kept free of server imports so the planner UI can share the labels.
+
+export type WalkIntensity = "stroll" | "brisk" | "hike" | "run"
+
+// Extra warmth from metabolic heat once moving, in °C
+export const INTENSITY_WARMING: Record<WalkIntensity, number> = {
+  stroll: 0,
+  brisk: 3,
+  hike: 4,
+  run: 8,
+}
+
+export const WALK_INTENSITY_OPTIONS: { value: WalkIntensity; label: string }[] = [
+  { value: "stroll", label: "Stroll" },
+  { value: "brisk", label: "Brisk" },
+  { value: "hike", label: "Hike" },
+  { value: "run", label: "Run" },
+]
+
+export function parseIntensity(value: unknown): WalkIntensity {
+  return WALK_INTENSITY_OPTIONS.some((option) => option.value === value) ? (value as WalkIntensity) : "stroll"
+}
+
+export function describeIntensityWarming(intensity: WalkIntensity): string | null {
+  const celsius = INTENSITY_WARMING[intensity]
+  if (celsius === 0) return null
+
+  return `Dress as if it's about ${Math.round((celsius * 9) / 5)}°F / ${celsius}°C warmer`
+}
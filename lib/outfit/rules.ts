@@ -0,0 +1,240 @@
+// The outfit rule table. Each rule maps a weather condition to items; see OutfitRule for how priorities
+// and fallbacks combine. Both the forecast and the current-weather outfits are built from this table.
+
+import { getHeatRisk } from "@/lib/utils/heat"
+import type { SpeedUnit, TemperatureUnit } from "@/lib/weather"
+import { INTENSITY_WARMING, type WalkIntensity } from "./intensity"
+import type { OutfitRule, OutfitThresholds, OutfitWeather } from "./types"
+
+// Each threshold in both units, rounded to friendly numbers rather than converted exactly
+const TEMPERATURE_THRESHOLDS: Record<Exclude<keyof OutfitThresholds, "windy">, Record<TemperatureUnit, number>> = {
+  veryHot: { celsius: 24, fahrenheit: 75 },
+  hot: { celsius: 21, fahrenheit: 70 },
+  warm: { celsius: 15, fahrenheit: 60 },
+  mild: { celsius: 10, fahrenheit: 50 },
+  cool: { celsius: 7, fahrenheit: 45 },
+  chilly: { celsius: 4, fahrenheit: 40 },
+  freezing: { celsius: 0, fahrenheit: 32 },
+}
+
+const WINDY: Record<SpeedUnit, number> = { kmh: 24, mph: 15 }
+
+// However the ratings have gone, don't move the thresholds by more than this (°C)
+const MAX_COMFORT_OFFSET = 5
+
+// Rain gear once rain is likely or already falling steadily; a light layer when it's only possible
+const RAIN_LIKELY_CHANCE = 50 // %
+const RAIN_POSSIBLE_CHANCE = 20 // %
+const STEADY_RAIN_MM = 0.5 // Per hour
+
+// Visibility (meters): under 1 km is fog, under 5 km drivers start to struggle at dusk
+const POOR_VISIBILITY = 1000
+const REDUCED_VISIBILITY = 5000
+
+const PRIORITY = {
+  safety: 20, // Being seen by drivers
+  health: 10, // Heat and ground conditions
+  normal: 0,
+}
+
+const isSnowing = (weather: OutfitWeather) => weather.condition.toLowerCase().includes("snow")
+
+// Precipitation in snowy weather is snow, which the snow rule already dresses for
+const isRaining = (weather: OutfitWeather) =>
+  weather.condition.toLowerCase().includes("rain") ||
+  (!isSnowing(weather) &&
+    ((weather.precipitationChance ?? 0) > RAIN_LIKELY_CHANCE || (weather.precipitationRate ?? 0) >= STEADY_RAIN_MM))
+
+const isVisibility = (weather: OutfitWeather, below: number) =>
+  weather.visibility !== undefined && weather.visibility !== null && weather.visibility < below
+
+export const OUTFIT_RULES: OutfitRule[] = [
+  // Base layers by temperature, one band at a time
+  {
+    id: "hot",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature >= t.veryHot,
+    items: { outerwear: ["Light breathable shirt", "Tank top or t-shirt"] },
+  },
+  {
+    id: "warm",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature >= t.warm && temperature < t.veryHot,
+    items: { outerwear: ["Light jacket", "Long sleeve shirt"] },
+  },
+  {
+    id: "cool",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature >= t.cool && temperature < t.warm,
+    items: { outerwear: ["Medium jacket", "Sweater or hoodie"] },
+  },
+  {
+    id: "cold",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature >= t.freezing && temperature < t.cool,
+    items: { outerwear: ["Heavy coat", "Insulated jacket"] },
+  },
+  {
+    id: "freezing",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature < t.freezing,
+    items: { outerwear: ["Winter coat", "Thermal layers"] },
+  },
+
+  // Precipitation
+  {
+    id: "rain",
+    priority: PRIORITY.normal,
+    when: (weather) => isRaining(weather),
+    items: { outerwear: ["Rain jacket"], shoes: ["Waterproof boots"], accessories: ["Umbrella"] },
+  },
+  {
+    id: "rainPossible",
+    priority: PRIORITY.normal,
+    when: (weather) =>
+      !isRaining(weather) &&
+      !isSnowing(weather) &&
+      ((weather.precipitationChance ?? 0) > RAIN_POSSIBLE_CHANCE || (weather.precipitationRate ?? 0) > 0),
+    items: { accessories: ["Light rain jacket or umbrella"] },
+  },
+  {
+    id: "snow",
+    priority: PRIORITY.normal,
+    when: (weather) => isSnowing(weather),
+    items: {
+      outerwear: ["Waterproof winter coat"],
+      shoes: ["Insulated winter boots"],
+      accessories: ["Winter hat", "Gloves", "Scarf"],
+    },
+  },
+
+  // Wind
+  {
+    id: "windy",
+    priority: PRIORITY.normal,
+    when: ({ windSpeed }, t) => windSpeed > t.windy,
+    items: { outerwear: ["Windbreaker"] },
+  },
+  {
+    id: "windyAndCool",
+    priority: PRIORITY.normal,
+    when: ({ windSpeed, temperature }, t) => windSpeed > t.windy && temperature < t.mild,
+    items: { accessories: ["Ear warmers or hat"] },
+  },
+
+  // Exertion: a wicking layer under the jacket so sweat doesn't chill, and proper footwear for the terrain
+  {
+    id: "activeBaseLayer",
+    priority: PRIORITY.normal,
+    underLayer: true, // Cold, wet and windy weather fills the outerwear list, which is when it matters most
+    when: ({ temperature, intensity = "stroll" }, t) => intensity !== "stroll" && temperature < t.warm,
+    items: { outerwear: ["Moisture-wicking base layer"] },
+  },
+  {
+    id: "activeInWarmth",
+    priority: PRIORITY.normal,
+    when: ({ temperature, intensity = "stroll" }, t) => intensity !== "stroll" && temperature >= t.warm,
+    items: { outerwear: ["Moisture-wicking shirt"], accessories: ["Water bottle"] },
+  },
+  {
+    id: "hike",
+    priority: PRIORITY.normal,
+    when: ({ intensity }) => intensity === "hike",
+    items: { shoes: ["Trail shoes or hiking boots"] },
+  },
+  {
+    id: "run",
+    priority: PRIORITY.normal,
+    when: ({ intensity }) => intensity === "run",
+    items: { shoes: ["Running shoes"] },
+  },
+
+  // Cold and sun accessories
+  {
+    id: "chilly",
+    priority: PRIORITY.normal,
+    when: ({ temperature }, t) => temperature < t.chilly,
+    items: { accessories: ["Winter hat", "Gloves", "Scarf"] },
+  },
+  {
+    id: "sunny",
+    priority: PRIORITY.normal,
+    when: ({ temperature, condition }, t) => temperature > t.hot && condition.toLowerCase().includes("clear"),
+    items: { accessories: ["Sunglasses", "Sun hat", "Sunscreen"] },
+  },
+
+  // Heat safety, by National Weather Service heat index tier
+  {
+    id: "heat",
+    priority: PRIORITY.health,
+    when: ({ humidity }) => humidity !== undefined,
+    items: {
+      accessories: ({ temperature, humidity, tempUnit }) =>
+        getHeatRisk(temperature, humidity ?? 0, tempUnit).recommendations,
+    },
+  },
+
+  // The ground underfoot (ice, slush, puddles) matters more for shoes than what's falling
+  {
+    id: "surface",
+    priority: PRIORITY.health,
+    when: ({ surfaceFootwear }) => (surfaceFootwear ?? []).length > 0,
+    items: { shoes: ({ surfaceFootwear }) => surfaceFootwear ?? [] },
+  },
+
+  // Being seen in fog and haze
+  {
+    id: "poorVisibility",
+    priority: PRIORITY.safety,
+    when: (weather) => isVisibility(weather, POOR_VISIBILITY),
+    items: { accessories: ["Reflective vest", "Headlamp or clip-on light"] },
+  },
+  {
+    id: "reducedVisibility",
+    priority: PRIORITY.safety,
+    when: (weather) => isVisibility(weather, REDUCED_VISIBILITY) && !isVisibility(weather, POOR_VISIBILITY),
+    items: { accessories: ["Reflective vest or bright clothing"] },
+  },
+
+  // Everyday shoes when nothing more specific was called for
+  {
+    id: "hotShoes",
+    priority: PRIORITY.normal,
+    fallbackFor: "shoes",
+    when: ({ temperature }, t) => temperature > t.veryHot,
+    items: { shoes: ["Comfortable walking shoes", "Breathable sneakers"] },
+  },
+  {
+    id: "mildShoes",
+    priority: PRIORITY.normal,
+    fallbackFor: "shoes",
+    when: ({ temperature }, t) => temperature > t.cool && temperature <= t.veryHot,
+    items: { shoes: ["Walking shoes", "Athletic sneakers"] },
+  },
+  {
+    id: "coldShoes",
+    priority: PRIORITY.normal,
+    fallbackFor: "shoes",
+    when: ({ temperature }, t) => temperature <= t.cool,
+    items: { shoes: ["Closed-toe shoes", "Warm sneakers or boots"] },
+  },
+]
+
+// Someone who runs cold (a negative offset) gets every temperature threshold raised, so they're dressed
+// as if it were that much colder. Exertion lowers them, dressing a run as if it were warmer.
+export function resolveThresholds(
+  tempUnit: TemperatureUnit,
+  speedUnit: SpeedUnit,
+  comfortOffset = 0,
+  intensity: WalkIntensity = "stroll",
+): OutfitThresholds {
+  const offsetCelsius =
+    Math.max(-MAX_COMFORT_OFFSET, Math.min(MAX_COMFORT_OFFSET, comfortOffset)) + INTENSITY_WARMING[intensity]
+  const offset = tempUnit === "celsius" ? offsetCelsius : (offsetCelsius * 9) / 5
+
+  const temperatures = Object.fromEntries(
+    Object.entries(TEMPERATURE_THRESHOLDS).map(([name, values]) => [name, values[tempUnit] - offset]),
+  ) as Omit<OutfitThresholds, "windy">
+
+  return { ...temperatures, windy: WINDY[speedUnit] }
+}
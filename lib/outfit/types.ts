@@ -0,0 +1,65 @@
+import type { SpeedUnit, TemperatureUnit } from "@/lib/weather"
+import type { WalkIntensity } from "./intensity"
+
+export type OutfitSlot = "outerwear" | "shoes" | "accessories"
+
+export type OutfitRecommendations = Record<OutfitSlot, string[]>
+
+// What the rules look at. Forecasts know the chance of rain, current conditions know how much is falling,
+// so each rule accepts whichever is present.
+export interface OutfitWeather {
+  temperature: number
+  condition: string // As returned by getWeatherCondition, e.g. "Rain showers"
+  windSpeed: number
+  precipitationChance?: number // %
+  precipitationRate?: number // mm per hour
+  humidity?: number // %
+  visibility?: number | null // Meters
+  surfaceFootwear?: string[] // From assessSurfaceCondition
+  comfortOffset?: number // °C learned from post-walk ratings; negative for people who run cold
+  intensity?: WalkIntensity
+  tempUnit: TemperatureUnit
+  speedUnit: SpeedUnit
+}
+
+// Thresholds resolved to the unit of the weather being dressed for
+export interface OutfitThresholds {
+  veryHot: number
+  hot: number
+  warm: number
+  cool: number
+  mild: number
+  chilly: number
+  freezing: number
+  windy: number
+}
+
+export interface OutfitRule {
+  id: string
+  // Higher-priority items are listed first within a slot, so they survive the per-slot limits.
+  // Rules with equal priority keep their table order.
+  priority: number
+  when: (weather: OutfitWeather, thresholds: OutfitThresholds) => boolean
+  items: Partial<Record<OutfitSlot, string[] | ((weather: OutfitWeather) => string[])>>
+  // Only applies when no other rule has put anything in this slot
+  fallbackFor?: OutfitSlot
+  // Worn under everything else, so its items don't take up any of the per-slot places
+  underLayer?: boolean
+}
+
+export type WardrobeCategory = "top" | "jacket" | "shoes" | "hat" | "gloves" | "scarf" | "umbrella" | "cleats"
+
+// Something the walker owns, saved in their browser and sent with each request
+export interface WardrobeItem {
+  id: string
+  name: string // As the owner describes it, e.g. "grey Patagonia shell"
+  category: WardrobeCategory
+  warmth: number // 1 (summer-weight) to 5 (deep-winter)
+  waterproof: boolean
+  windproof: boolean
+}
+
+export interface FittedOutfit {
+  outfit: OutfitRecommendations
+  missing: string[] // Generic items the wardrobe had nothing suitable for
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest"
+import { SURFACE_FOOTWEAR } from "@/lib/mcp/weather-server"
+import { OUTFIT_RULES } from "./rules"
+import { fitToWardrobe, getItemNeed } from "./wardrobe"
+import type { OutfitWeather, WardrobeItem } from "./types"
+
+const PUFFER: WardrobeItem = {
+  id: "puffer",
+  name: "black puffer",
+  category: "jacket",
+  warmth: 4,
+  waterproof: false,
+  windproof: true,
+}
+
+const SNEAKERS: WardrobeItem = {
+  id: "sneakers",
+  name: "white sneakers",
+  category: "shoes",
+  warmth: 2,
+  waterproof: false,
+  windproof: false,
+}
+
+// Enough weather for the rules whose items depend on it to suggest everything they can
+const WEATHERS: OutfitWeather[] = [27, 32, 38, 45].map((temperature) => ({
+  temperature,
+  condition: "Clear sky",
+  windSpeed: 5,
+  humidity: 60,
+  surfaceFootwear: Object.values(SURFACE_FOOTWEAR).flat(),
+  tempUnit: "celsius",
+  speedUnit: "kmh",
+}))
+
+describe("getItemNeed", () => {
+  it("knows every item the rule table can suggest", () => {
+    const generics = new Set<string>()
+    for (const rule of OUTFIT_RULES) {
+      for (const items of Object.values(rule.items)) {
+        const suggested = typeof items === "function" ? WEATHERS.flatMap((weather) => items(weather)) : items
+        suggested.forEach((item) => generics.add(item))
+      }
+    }
+
+    expect([...generics].filter((generic) => getItemNeed(generic) === undefined)).toEqual([])
+  })
+
+  it("knows the just-in-case layers by name", () => {
+    expect(getItemNeed("Packable extra layer (just in case it's as cold as 4°C)")).toMatchObject({ category: "top" })
+    expect(getItemNeed("Packable rain jacket (just in case)")).toMatchObject({ category: "jacket", waterproof: true })
+  })
+})
+
+describe("fitToWardrobe", () => {
+  it("leaves the outfit alone without a wardrobe", () => {
+    const outfit = { outerwear: ["Heavy coat"], shoes: ["Walking shoes"], accessories: [] }
+
+    expect(fitToWardrobe(outfit, [])).toEqual({ outfit, missing: [] })
+  })
+
+  it("lets one owned coat stand in for its alternatives", () => {
+    const { outfit, missing } = fitToWardrobe(
+      { outerwear: ["Heavy coat", "Insulated jacket"], shoes: [], accessories: [] },
+      [PUFFER],
+    )
+
+    expect(outfit.outerwear).toEqual(["Your black puffer"])
+    expect(missing).toEqual([])
+  })
+
+  it("lists both alternatives when nothing owned fits either", () => {
+    const { missing } = fitToWardrobe(
+      { outerwear: ["Heavy coat", "Insulated jacket"], shoes: [], accessories: [] },
+      [SNEAKERS],
+    )
+
+    expect(missing).toEqual(["Heavy coat", "Insulated jacket"])
+  })
+
+  it("lets one owned pair of shoes stand in for its alternatives", () => {
+    const { outfit, missing } = fitToWardrobe(
+      { outerwear: [], shoes: ["Walking shoes", "Athletic sneakers"], accessories: [] },
+      [SNEAKERS],
+    )
+
+    expect(outfit.shoes).toEqual(["Your white sneakers"])
+    expect(missing).toEqual([])
+  })
+
+  it("doesn't let ordinary shoes cover for waterproof boots", () => {
+    const { outfit, missing } = fitToWardrobe(
+      { outerwear: [], shoes: ["Waterproof boots", "Trail shoes or hiking boots"], accessories: [] },
+      [SNEAKERS],
+    )
+
+    expect(outfit.shoes).toEqual(["Waterproof boots", "Your white sneakers"])
+    expect(missing).toEqual(["Waterproof boots"])
+  })
+
+  it("doesn't let a coat that isn't waterproof cover for a rain jacket", () => {
+    const { outfit, missing } = fitToWardrobe(
+      { outerwear: ["Heavy coat", "Insulated jacket", "Rain jacket"], shoes: [], accessories: [] },
+      [PUFFER],
+    )
+
+    expect(outfit.outerwear).toEqual(["Your black puffer", "Rain jacket"])
+    expect(missing).toEqual(["Rain jacket"])
+  })
+
+  it("wears layers of different kinds together", () => {
+    const { missing } = fitToWardrobe(
+      { outerwear: [], shoes: [], accessories: ["Winter hat", "Gloves", "Scarf"] },
+      [{ ...PUFFER, id: "hat", name: "wool beanie", category: "hat" }],
+    )
+
+    expect(missing).toEqual(["Gloves", "Scarf"])
+  })
+  it.each([
+    ["Winter hat", "Ear warmers or hat"],
+    ["Ear warmers or hat", "Winter hat"],
+  ])("lets one owned hat cover %s and %s from different rules", (first, second) => {
+    const { outfit, missing } = fitToWardrobe({ outerwear: [], shoes: [], accessories: [first, "Gloves", second] }, [
+      { ...PUFFER, id: "headband", name: "fleece headband", category: "hat", warmth: 2 },
+      { ...PUFFER, id: "beanie", name: "wool beanie", category: "hat", warmth: 3 },
+    ])
+
+    expect(outfit.accessories).toEqual(["Your wool beanie", "Gloves"])
+    expect(missing).toEqual(["Gloves"])
+  })
+
+  it("picks separate items when no one item meets every need of that kind", () => {
+    const { outfit, missing } = fitToWardrobe(
+      { outerwear: ["Heavy coat", "Rain jacket"], shoes: [], accessories: [] },
+      [PUFFER, { ...PUFFER, id: "shell", name: "yellow shell", warmth: 2, waterproof: true }],
+    )
+
+    expect(outfit.outerwear).toEqual(["Your black puffer", "Your yellow shell"])
+    expect(missing).toEqual([])
+  })
+})
@@ -0,0 +1,173 @@
+// Swaps the engine's generic items ("Medium jacket") for things the walker actually owns
+// ("Your grey Patagonia shell"). Items with no wardrobe equivalent, like sunscreen, pass through untouched.
+
+import { z } from "zod"
+import type { FittedOutfit, OutfitRecommendations, OutfitSlot, WardrobeCategory, WardrobeItem } from "./types"
+
+const wardrobeItemSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(80),
+  category: z.enum(["top", "jacket", "shoes", "hat", "gloves", "scarf", "umbrella", "cleats"]),
+  warmth: z.number().int().min(1).max(5),
+  waterproof: z.boolean(),
+  windproof: z.boolean(),
+})
+
+interface ItemNeed {
+  category: WardrobeCategory
+  minWarmth?: number
+  maxWarmth?: number
+  waterproof?: boolean
+  windproof?: boolean
+}
+
+// What an owned item has to be to stand in for each generic item the rules can suggest. Null marks items that
+// aren't clothing, which always pass through.
+const ITEM_NEEDS: Record<string, ItemNeed | null> = {
+  "Light breathable shirt": { category: "top", maxWarmth: 1 },
+  "Tank top or t-shirt": { category: "top", maxWarmth: 1 },
+  "Long sleeve shirt": { category: "top", minWarmth: 2, maxWarmth: 2 },
+  "Sweater or hoodie": { category: "top", minWarmth: 3, maxWarmth: 3 },
+  "Thermal layers": { category: "top", minWarmth: 4 },
+  "Moisture-wicking base layer": { category: "top", minWarmth: 1, maxWarmth: 2 },
+  "Moisture-wicking shirt": { category: "top", maxWarmth: 1 },
+  "Light jacket": { category: "jacket", minWarmth: 2, maxWarmth: 2 },
+  "Medium jacket": { category: "jacket", minWarmth: 3, maxWarmth: 3 },
+  "Heavy coat": { category: "jacket", minWarmth: 4, maxWarmth: 4 },
+  "Insulated jacket": { category: "jacket", minWarmth: 4, maxWarmth: 4 },
+  "Winter coat": { category: "jacket", minWarmth: 5 },
+  "Waterproof winter coat": { category: "jacket", minWarmth: 4, waterproof: true },
+  "Rain jacket": { category: "jacket", waterproof: true },
+  Windbreaker: { category: "jacket", windproof: true },
+  "Waterproof boots": { category: "shoes", waterproof: true },
+  "Insulated winter boots": { category: "shoes", minWarmth: 4 },
+  "Comfortable walking shoes": { category: "shoes", maxWarmth: 2 },
+  "Breathable sneakers": { category: "shoes", maxWarmth: 1 },
+  "Walking shoes": { category: "shoes", minWarmth: 2, maxWarmth: 3 },
+  "Athletic sneakers": { category: "shoes", minWarmth: 2, maxWarmth: 3 },
+  "Closed-toe shoes": { category: "shoes", minWarmth: 3 },
+  "Warm sneakers or boots": { category: "shoes", minWarmth: 3 },
+  "Winter hat": { category: "hat", minWarmth: 3 },
+  "Ear warmers or hat": { category: "hat", minWarmth: 2 },
+  "Trail shoes or hiking boots": { category: "shoes", minWarmth: 2, maxWarmth: 4 },
+  "Running shoes": { category: "shoes", maxWarmth: 2 },
+  "Waterproof shoes or boots": { category: "shoes", waterproof: true },
+  "Boots with deep tread": { category: "shoes", minWarmth: 3 },
+  "Traction cleats": { category: "cleats" },
+  "Sun hat": { category: "hat", maxWarmth: 1 },
+  Gloves: { category: "gloves" },
+  Scarf: { category: "scarf" },
+  Umbrella: { category: "umbrella" },
+  "Light rain jacket or umbrella": { category: "umbrella" },
+  "Packable extra layer": { category: "top", minWarmth: 2, maxWarmth: 3 },
+  "Packable rain jacket": { category: "jacket", maxWarmth: 2, waterproof: true },
+  Sunglasses: null,
+  Sunscreen: null,
+  "Water bottle": null,
+  "Cooling towel": null,
+  "Shaded route": null,
+  "Shorter, shaded route": null,
+  "Reflective vest": null,
+  "Reflective vest or bright clothing": null,
+  "Headlamp or clip-on light": null,
+}
+
+// Drops anything malformed rather than failing the whole request over one bad entry
+export function parseWardrobe(value: unknown): WardrobeItem[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((item) => {
+    const parsed = wardrobeItemSchema.safeParse(item)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+// Undefined for an item this table doesn't know. Just-in-case layers carry a note in brackets, which is dropped.
+export function getItemNeed(generic: string): ItemNeed | null | undefined {
+  return ITEM_NEEDS[generic.replace(/ \(.*\)$/, "")]
+}
+
+export function fitToWardrobe(outfit: OutfitRecommendations, wardrobe: WardrobeItem[]): FittedOutfit {
+  if (wardrobe.length === 0) {
+    return { outfit, missing: [] }
+  }
+
+  // Each owned item is only suggested once, even if it suits several generic items
+  const used = new Set<string>()
+  const owned = new Map<string, WardrobeItem>()
+  const covered = new Set<string>()
+
+  // Generic items of the same category are either-or ("Heavy coat", "Insulated jacket"), even from different rules
+  // ("Winter hat", "Ear warmers or hat"), while items of different categories are worn together
+  const byCategory = new Map<WardrobeCategory, { generic: string; need: ItemNeed }[]>()
+  for (const generic of Object.values(outfit).flat()) {
+    const need = getItemNeed(generic)
+    if (!need) continue
+    byCategory.set(need.category, [...(byCategory.get(need.category) ?? []), { generic, need }])
+  }
+
+  for (const group of byCategory.values()) {
+    // One owned item that meets every need in the category covers them all
+    const shared = findBestMatch(group.map(({ need }) => need), wardrobe, used)
+    if (shared) {
+      used.add(shared.id)
+      owned.set(group[0].generic, shared)
+      group.slice(1).forEach(({ generic }) => covered.add(generic))
+      continue
+    }
+
+    // Otherwise each need gets its own, unless an item already picked would do for it too: a puffer isn't a rain jacket
+    const picked: WardrobeItem[] = []
+    for (const { generic, need } of group) {
+      if (picked.some((item) => meetsNeed(item, need))) {
+        covered.add(generic)
+        continue
+      }
+      const match = findBestMatch([need], wardrobe, used)
+      if (match) {
+        used.add(match.id)
+        owned.set(generic, match)
+        picked.push(match)
+      }
+    }
+  }
+
+  const missing: string[] = []
+  const fitSlot = (slot: OutfitSlot) =>
+    outfit[slot].flatMap((generic) => {
+      const item = owned.get(generic)
+      if (item) return [`Your ${item.name}`]
+      if (covered.has(generic)) return []
+      if (getItemNeed(generic)) missing.push(generic)
+      return [generic]
+    })
+
+  return {
+    outfit: {
+      outerwear: fitSlot("outerwear"),
+      shoes: fitSlot("shoes"),
+      accessories: fitSlot("accessories"),
+    },
+    missing,
+  }
+}
+
+// The closest warmth to the most demanding need wins, so a need of "4 or more" takes a 4 before a 5
+function findBestMatch(needs: ItemNeed[], wardrobe: WardrobeItem[], used: Set<string>): WardrobeItem | undefined {
+  const candidates = wardrobe.filter((item) => !used.has(item.id) && needs.every((need) => meetsNeed(item, need)))
+
+  const minWarmths = needs.flatMap((need) => need.minWarmth ?? [])
+  const maxWarmths = needs.flatMap((need) => need.maxWarmth ?? [])
+  const target = minWarmths.length > 0 ? Math.max(...minWarmths) : maxWarmths.length > 0 ? Math.min(...maxWarmths) : 3
+  return candidates.sort((a, b) => Math.abs(a.warmth - target) - Math.abs(b.warmth - target))[0]
+}
+
+function meetsNeed(item: WardrobeItem, need: ItemNeed): boolean {
+  return (
+    item.category === need.category &&
+    item.warmth >= (need.minWarmth ?? 1) &&
+    item.warmth <= (need.maxWarmth ?? 5) &&
+    (!need.waterproof || item.waterproof) &&
+    (!need.windproof || item.windproof)
+  )
+}
@@ -0,0 +1,48 @@
+// Personal comfort offset, learned in the browser from how past walks felt and sent with outfit requests.
+// Each rating nudges the offset a degree; outfits are already adjusted, so "just right" leaves it alone.
+
+export type ComfortRating = "tooCold" | "justRight" | "tooWarm"
+
+export interface ComfortProfile {
+  offset: number // °C; negative for people who run cold
+  ratingCount: number
+}
+
+const COMFORT_STORAGE_KEY = "sunset-walk-planner:comfort"
+const STEP_CELSIUS = 1
+const MAX_OFFSET_CELSIUS = 5 // Matches the clamp in the outfit engine
+
+export function loadComfortProfile(): ComfortProfile {
+  try {
+    const saved = window.localStorage.getItem(COMFORT_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : { offset: 0, ratingCount: 0 }
+  } catch {
+    return { offset: 0, ratingCount: 0 }
+  }
+}
+
+export function saveComfortProfile(profile: ComfortProfile) {
+  try {
+    window.localStorage.setItem(COMFORT_STORAGE_KEY, JSON.stringify(profile))
+  } catch (err) {
+    console.error("Failed to save comfort profile:", err)
+  }
+}
+
+export function applyComfortRating(profile: ComfortProfile, rating: ComfortRating): ComfortProfile {
+  const step = rating === "tooCold" ? -STEP_CELSIUS : rating === "tooWarm" ? STEP_CELSIUS : 0
+  const offset = Math.max(-MAX_OFFSET_CELSIUS, Math.min(MAX_OFFSET_CELSIUS, profile.offset + step))
+
+  return { offset, ratingCount: profile.ratingCount + 1 }
+}
+
+export function describeComfortOffset(offset: number): string {
+  if (offset === 0) {
+    return "Outfits use the standard temperature thresholds"
+  }
+
+  const amount = `${Math.round((Math.abs(offset) * 9) / 5)}°F / ${Math.abs(offset)}°C`
+  return offset < 0
+    ? `You run cold, so outfits assume it's about ${amount} colder than it is`
+    : `You run warm, so outfits assume it's about ${amount} warmer than it is`
+}
@@ -0,0 +1,70 @@
+// Heat index and heat-risk tiers. Kept free of the weather client so the outfit rules can use it too.
+
+import type { TemperatureUnit } from "@/lib/weather"
+
+export type HeatRiskTier = "none" | "caution" | "extremeCaution" | "danger"
+
+export interface HeatRisk {
+  heatIndex: number // Rounded, in the unit that was passed in
+  tier: HeatRiskTier
+  recommendations: string[]
+}
+
+// Tiers follow the US National Weather Service heat index chart
+export function getHeatRisk(temperature: number, humidity: number, tempUnit: TemperatureUnit = "fahrenheit"): HeatRisk {
+  const heatIndex = calculateHeatIndex(temperature, humidity, tempUnit)
+  const heatIndexF = tempUnit === "celsius" ? (heatIndex * 9) / 5 + 32 : heatIndex
+
+  let tier: HeatRiskTier = "none"
+  if (heatIndexF >= 103) {
+    tier = "danger"
+  } else if (heatIndexF >= 90) {
+    tier = "extremeCaution"
+  } else if (heatIndexF >= 80) {
+    tier = "caution"
+  }
+
+  const recommendations: string[] = []
+  if (tier === "caution") {
+    recommendations.push("Water bottle")
+  } else if (tier === "extremeCaution") {
+    recommendations.push("Water bottle", "Cooling towel", "Shaded route")
+  } else if (tier === "danger") {
+    recommendations.push("Water bottle", "Cooling towel", "Shorter, shaded route")
+  }
+
+  return {
+    heatIndex: Math.round(heatIndex),
+    tier,
+    recommendations,
+  }
+}
+
+function calculateHeatIndex(temp: number, humidity: number, unit: TemperatureUnit = "fahrenheit"): number {
+  const tempF = unit === "celsius" ? (temp * 9) / 5 + 32 : temp
+
+  // Heat index only applies at 80°F (27°C) and above
+  if (tempF < 80) {
+    return temp
+  }
+
+  // Rothfusz regression, with the NWS adjustments for very dry and very humid air
+  let heatIndexF =
+    -42.379 +
+    2.04901523 * tempF +
+    10.14333127 * humidity -
+    0.22475541 * tempF * humidity -
+    0.00683783 * tempF * tempF -
+    0.05481717 * humidity * humidity +
+    0.00122874 * tempF * tempF * humidity +
+    0.00085282 * tempF * humidity * humidity -
+    0.00000199 * tempF * tempF * humidity * humidity
+
+  if (humidity < 13 && tempF <= 112) {
+    heatIndexF -= ((13 - humidity) / 4) * Math.sqrt((17 - Math.abs(tempF - 95)) / 17)
+  } else if (humidity > 85 && tempF <= 87) {
+    heatIndexF += ((humidity - 85) / 10) * ((87 - tempF) / 5)
+  }
+
+  return unit === "celsius" ? ((heatIndexF - 32) * 5) / 9 : heatIndexF
+}
@@ -28,3 +28,15 @@ export function formatSpeed(speed: number, unit: "mph" | "kmh"): string {
 
   return `${Math.round(mph)} mph / ${Math.round(kmh)} km/h`
 }
+
+export function formatVisibility(meters: number): string {
+  const km = meters / 1000
+  const miles = km * 0.621371
+
+  return `${miles.toFixed(1)} mi / ${km.toFixed(1)} km`
+}
+
+// Readings some sources leave out for an hour, e.g. PM2.5 from the air quality model
+export function formatReading(value: number | null, unit = ""): string {
+  return value === null ? "n/a" : `${value}${unit}`
+}
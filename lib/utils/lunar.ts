@@ -0,0 +1,192 @@
+// Moon position, phase and rise/set calculations
+// Based on the formulas used by SunCalc (https://github.com/mourner/suncalc), which come from
+// Astronomy Answers (https://aa.quae.nl/en/reken/hemelpositie.html)
+
+const DEG_TO_RAD = Math.PI / 180
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MS_PER_HOUR = 60 * 60 * 1000
+const J1970 = 2440588
+const J2000 = 2451545
+const OBLIQUITY = DEG_TO_RAD * 23.4397 // Obliquity of the Earth
+const SUN_DISTANCE_KM = 149598000
+
+export interface MoonIllumination {
+  fraction: number // 0 (new) to 1 (full)
+  phase: number // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  phaseName: string
+}
+
+export interface MoonTimes {
+  moonrise: Date | null
+  moonset: Date | null
+  alwaysUp: boolean
+  alwaysDown: boolean
+}
+
+export function getMoonIllumination(date: Date): MoonIllumination {
+  const d = toDays(date)
+  const sun = getSunCoords(d)
+  const moon = getMoonCoords(d)
+
+  // Geocentric elongation of the moon from the sun
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra),
+  )
+  const inclination = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    moon.dist - SUN_DISTANCE_KM * Math.cos(elongation),
+  )
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra),
+  )
+
+  const fraction = (1 + Math.cos(inclination)) / 2
+  const phase = 0.5 + (0.5 * inclination * (angle < 0 ? -1 : 1)) / Math.PI
+
+  return { fraction, phase, phaseName: getPhaseName(phase) }
+}
+
+// Moon altitude above the horizon in degrees (corrected for refraction)
+export function getMoonAltitude(date: Date, lat: number, lon: number): number {
+  const d = toDays(date)
+  const moon = getMoonCoords(d)
+  const hourAngle = getSiderealTime(d, -lon * DEG_TO_RAD) - moon.ra
+  const latRad = lat * DEG_TO_RAD
+
+  const altitude = Math.asin(
+    Math.sin(latRad) * Math.sin(moon.dec) + Math.cos(latRad) * Math.cos(moon.dec) * Math.cos(hourAngle),
+  )
+
+  return (altitude + getRefraction(altitude)) / DEG_TO_RAD
+}
+
+// Finds moonrise and moonset in the 24 hours following dayStart
+export function getMoonTimes(lat: number, lon: number, dayStart: Date): MoonTimes {
+  const startMs = dayStart.getTime()
+  const horizon = 0.133 // Accounts for the moon's apparent radius
+
+  let moonrise: Date | null = null
+  let moonset: Date | null = null
+  let h0 = getMoonAltitude(dayStart, lat, lon) - horizon
+
+  // Step through the day two hours at a time, fitting a parabola through each set of three altitudes
+  for (let i = 1; i <= 24; i += 2) {
+    const h1 = getMoonAltitude(new Date(startMs + i * MS_PER_HOUR), lat, lon) - horizon
+    const h2 = getMoonAltitude(new Date(startMs + (i + 1) * MS_PER_HOUR), lat, lon) - horizon
+
+    const a = (h0 + h2) / 2 - h1
+    const b = (h2 - h0) / 2
+    const xe = -b / (2 * a)
+    const ye = (a * xe + b) * xe + h1
+    const discriminant = b * b - 4 * a * h1
+
+    let roots = 0
+    let x1 = 0
+    let x2 = 0
+    if (discriminant >= 0) {
+      const dx = Math.sqrt(discriminant) / (Math.abs(a) * 2)
+      x1 = xe - dx
+      x2 = xe + dx
+      if (Math.abs(x1) <= 1) roots++
+      if (Math.abs(x2) <= 1) roots++
+      if (x1 < -1) x1 = x2
+    }
+
+    if (roots === 1) {
+      const eventTime = new Date(startMs + (i + x1) * MS_PER_HOUR)
+      if (h0 < 0) {
+        moonrise = moonrise ?? eventTime
+      } else {
+        moonset = moonset ?? eventTime
+      }
+    } else if (roots === 2) {
+      moonrise = moonrise ?? new Date(startMs + (i + (ye < 0 ? x2 : x1)) * MS_PER_HOUR)
+      moonset = moonset ?? new Date(startMs + (i + (ye < 0 ? x1 : x2)) * MS_PER_HOUR)
+    }
+
+    if (moonrise && moonset) {
+      break
+    }
+
+    h0 = h2
+  }
+
+  const stillUp = h0 > 0
+
+  return {
+    moonrise,
+    moonset,
+    alwaysUp: !moonrise && !moonset && stillUp,
+    alwaysDown: !moonrise && !moonset && !stillUp,
+  }
+}
+
+// Helper Functions
+
+function toDays(date: Date): number {
+  return date.getTime() / MS_PER_DAY - 0.5 + J1970 - J2000
+}
+
+function getRightAscension(longitude: number, latitude: number): number {
+  return Math.atan2(
+    Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+    Math.cos(longitude),
+  )
+}
+
+function getDeclination(longitude: number, latitude: number): number {
+  return Math.asin(
+    Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude),
+  )
+}
+
+function getSiderealTime(d: number, lw: number): number {
+  return DEG_TO_RAD * (280.16 + 360.9856235 * d) - lw
+}
+
+function getRefraction(altitude: number): number {
+  // Formula 16.4 of "Astronomical Algorithms" 2nd edition by Jean Meeus
+  const h = Math.max(altitude, 0)
+  return 0.0002967 / Math.tan(h + 0.00312536 / (h + 0.08901179))
+}
+
+function getSunCoords(d: number) {
+  const meanAnomaly = DEG_TO_RAD * (357.5291 + 0.98560028 * d)
+  const center =
+    DEG_TO_RAD *
+    (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly))
+  const perihelion = DEG_TO_RAD * 102.9372
+  const eclipticLongitude = meanAnomaly + center + perihelion + Math.PI
+
+  return {
+    dec: getDeclination(eclipticLongitude, 0),
+    ra: getRightAscension(eclipticLongitude, 0),
+  }
+}
+
+function getMoonCoords(d: number) {
+  const meanLongitude = DEG_TO_RAD * (218.316 + 13.176396 * d)
+  const meanAnomaly = DEG_TO_RAD * (134.963 + 13.064993 * d)
+  const argumentOfLatitude = DEG_TO_RAD * (93.272 + 13.22935 * d)
+
+  const longitude = meanLongitude + DEG_TO_RAD * 6.289 * Math.sin(meanAnomaly)
+  const latitude = DEG_TO_RAD * 5.128 * Math.sin(argumentOfLatitude)
+
+  return {
+    ra: getRightAscension(longitude, latitude),
+    dec: getDeclination(longitude, latitude),
+    dist: 385001 - 20905 * Math.cos(meanAnomaly), // km
+  }
+}
+
+function getPhaseName(phase: number): string {
+  if (phase < 0.03 || phase > 0.97) return "New moon"
+  if (phase < 0.22) return "Waxing crescent"
+  if (phase < 0.28) return "First quarter"
+  if (phase < 0.47) return "Waxing gibbous"
+  if (phase < 0.53) return "Full moon"
+  if (phase < 0.72) return "Waning gibbous"
+  if (phase < 0.78) return "Last quarter"
+  return "Waning crescent"
+}
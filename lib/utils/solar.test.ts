@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { getPolarStatus, getSunStatus, getSunTimes } from "./solar"
+
+// Reference times from the NOAA Solar Calculator (https://gml.noaa.gov/grad/solcalc/), rounded to the minute, in UTC
+const TOLERANCE_MS = 60 * 1000
+
+const LONDON = { lat: 51.5074, lon: -0.1278 }
+const QUITO = { lat: -0.1807, lon: -78.4678 }
+const SYDNEY = { lat: -33.8688, lon: 151.2093 }
+const REYKJAVIK = { lat: 64.1466, lon: -21.9426 }
+const TROMSO = { lat: 69.6492, lon: 18.9553 }
+
+function expectNear(actual: Date | null, expected: string) {
+  expect(actual).not.toBeNull()
+  expect(Math.abs(actual!.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(TOLERANCE_MS)
+}
+
+describe("getSunTimes", () => {
+  it.each([
+    ["London, June solstice", LONDON, "2024-06-21", "2024-06-21T03:43Z", "2024-06-21T20:22Z"],
+    ["London, December solstice", LONDON, "2024-12-21", "2024-12-21T08:04Z", "2024-12-21T15:54Z"],
+    ["Quito, June solstice", QUITO, "2024-06-21", "2024-06-21T11:12Z", "2024-06-21T23:19Z"],
+    ["Quito, December solstice", QUITO, "2024-12-21", "2024-12-21T11:08Z", "2024-12-21T23:16Z"],
+    ["Sydney, June solstice", SYDNEY, "2024-06-21", "2024-06-20T21:00Z", "2024-06-21T06:54Z"],
+    ["Sydney, December solstice", SYDNEY, "2024-12-21", "2024-12-20T18:41Z", "2024-12-21T09:06Z"],
+    ["Reykjavik, June solstice", REYKJAVIK, "2024-06-21", "2024-06-21T02:55Z", "2024-06-22T00:04Z"],
+    ["Reykjavik, December solstice", REYKJAVIK, "2024-12-21", "2024-12-21T11:23Z", "2024-12-21T15:30Z"],
+  ])("matches NOAA sunrise and sunset for %s", (_, { lat, lon }, date, sunrise, sunset) => {
+    const times = getSunTimes(lat, lon, date)
+
+    expectNear(times.sunrise, sunrise)
+    expectNear(times.sunset, sunset)
+  })
+
+  it.each([
+    ["London", LONDON, "2024-12-21", "2024-12-21T16:34Z"],
+    ["Sydney", SYDNEY, "2024-12-21", "2024-12-21T09:35Z"],
+    ["Reykjavik", REYKJAVIK, "2024-12-21", "2024-12-21T16:49Z"],
+  ])("matches NOAA civil twilight end for %s", (_, { lat, lon }, date, civilTwilightEnd) => {
+    expectNear(getSunTimes(lat, lon, date).civilTwilightEnd, civilTwilightEnd)
+  })
+
+  it("has no sunset in the midnight sun", () => {
+    const times = getSunTimes(TROMSO.lat, TROMSO.lon, "2024-06-21")
+
+    expect(times.sunrise).toBeNull()
+    expect(times.sunset).toBeNull()
+    expect(getSunStatus(TROMSO.lat, TROMSO.lon, "2024-06-21")).toBe("midnightSun")
+  })
+
+  it("has civil twilight but no sunrise in the polar night", () => {
+    const times = getSunTimes(TROMSO.lat, TROMSO.lon, "2024-12-21")
+
+    expect(times.sunrise).toBeNull()
+    expect(times.sunset).toBeNull()
+    expect(times.civilTwilightBegin).not.toBeNull()
+    expect(times.civilTwilightEnd).not.toBeNull()
+    expect(getSunStatus(TROMSO.lat, TROMSO.lon, "2024-12-21")).toBe("polarNight")
+  })
+})
+
+describe("getPolarStatus", () => {
+  it("treats a grazing sun just before the midnight sun as midnight sun", () => {
+    expect(getSunStatus(TROMSO.lat, TROMSO.lon, "2024-05-17")).toBe("normal")
+    expect(getSunTimes(TROMSO.lat, TROMSO.lon, "2024-05-17").sunset).toBeNull()
+    expect(getPolarStatus(TROMSO.lat, TROMSO.lon, "2024-05-17")).toBe("midnightSun")
+  })
+
+  it("treats a grazing sun at the end of the polar night as polar night", () => {
+    const greenland = { lat: 69.6492, lon: -45 }
+
+    expect(getSunStatus(greenland.lat, greenland.lon, "2025-01-14")).toBe("normal")
+    expect(getSunTimes(greenland.lat, greenland.lon, "2025-01-14").sunset).toBeNull()
+    expect(getPolarStatus(greenland.lat, greenland.lon, "2025-01-14")).toBe("polarNight")
+  })
+})
@@ -0,0 +1,252 @@
+// Solar position calculations based on the NOAA Solar Calculator
+// (https://gml.noaa.gov/grad/solcalc/calcdetails.html)
+
+const DEG_TO_RAD = Math.PI / 180
+const RAD_TO_DEG = 180 / Math.PI
+const MS_PER_MINUTE = 60 * 1000
+
+// Sun altitudes (degrees) that define each event
+export const SUN_ALTITUDES = {
+  sunrise: -0.833, // Accounts for refraction and the sun's apparent radius
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+  goldenHourUpper: 6,
+  goldenHourLower: -4, // Golden hour gives way to blue hour here
+}
+
+export interface SunTimes {
+  solarNoon: Date
+  sunrise: Date | null
+  sunset: Date | null
+  civilTwilightBegin: Date | null
+  civilTwilightEnd: Date | null
+  nauticalTwilightBegin: Date | null
+  nauticalTwilightEnd: Date | null
+  astronomicalTwilightBegin: Date | null
+  astronomicalTwilightEnd: Date | null
+}
+
+// "midnightSun": the sun never sets that day, "polarNight": the sun never rises
+export type SunStatus = "normal" | "midnightSun" | "polarNight"
+
+export interface SunPosition {
+  altitude: number // Degrees above the horizon
+  azimuth: number // Degrees clockwise from true north
+}
+
+export interface LightWindow {
+  start: Date | null
+  end: Date | null
+}
+
+// Calculates sun event times for a calendar date ("YYYY-MM-DD") at the given location.
+// Events that don't happen on that day (e.g. sunset during polar day) are returned as null.
+export function getSunTimes(lat: number, lon: number, date: string): SunTimes {
+  return {
+    solarNoon: getSolarNoon(lon, date),
+    sunrise: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.sunrise, "rising"),
+    sunset: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.sunrise, "setting"),
+    civilTwilightBegin: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.civil, "rising"),
+    civilTwilightEnd: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.civil, "setting"),
+    nauticalTwilightBegin: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.nautical, "rising"),
+    nauticalTwilightEnd: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.nautical, "setting"),
+    astronomicalTwilightBegin: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.astronomical, "rising"),
+    astronomicalTwilightEnd: getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.astronomical, "setting"),
+  }
+}
+
+export function getSunStatus(lat: number, lon: number, date: string): SunStatus {
+  const { declination } = getSolarParameters(getSolarNoon(lon, date).getTime())
+
+  // Sun altitude at its highest (solar noon) and lowest (solar midnight) points of the day
+  const maxAltitude = 90 - Math.abs(lat - declination)
+  const minAltitude = Math.abs(lat + declination) - 90
+
+  if (minAltitude > SUN_ALTITUDES.sunrise) {
+    return "midnightSun"
+  }
+  if (maxAltitude < SUN_ALTITUDES.sunrise) {
+    return "polarNight"
+  }
+  return "normal"
+}
+
+// For days getSunStatus calls "normal" but where sunrise or sunset still can't be found, because the sun only
+// grazes the horizon. Whichever of solar noon and solar midnight is closer to the horizon says which way it's going.
+export function getPolarStatus(lat: number, lon: number, date: string): Exclude<SunStatus, "normal"> {
+  const status = getSunStatus(lat, lon, date)
+  if (status !== "normal") {
+    return status
+  }
+
+  const solarNoon = getSolarNoon(lon, date)
+  const noonAltitude = getSunPosition(solarNoon, lat, lon).altitude
+  const midnightAltitude = getSunPosition(new Date(solarNoon.getTime() + 720 * MS_PER_MINUTE), lat, lon).altitude
+
+  if (noonAltitude < SUN_ALTITUDES.sunrise) {
+    return "polarNight"
+  }
+  if (midnightAltitude > SUN_ALTITUDES.sunrise) {
+    return "midnightSun"
+  }
+  return noonAltitude - SUN_ALTITUDES.sunrise < SUN_ALTITUDES.sunrise - midnightAltitude ? "polarNight" : "midnightSun"
+}
+
+export function getSunPosition(time: Date, lat: number, lon: number): SunPosition {
+  const { declination, equationOfTime } = getSolarParameters(time.getTime())
+  const latRad = lat * DEG_TO_RAD
+  const declRad = declination * DEG_TO_RAD
+
+  const minutesIntoUtcDay = (((time.getTime() / MS_PER_MINUTE) % 1440) + 1440) % 1440
+  const trueSolarTime = (((minutesIntoUtcDay + equationOfTime + 4 * lon) % 1440) + 1440) % 1440
+  const hourAngle = trueSolarTime / 4 - 180
+
+  const cosZenith = Math.min(
+    1,
+    Math.max(
+      -1,
+      Math.sin(latRad) * Math.sin(declRad) + Math.cos(latRad) * Math.cos(declRad) * Math.cos(hourAngle * DEG_TO_RAD),
+    ),
+  )
+  const zenithRad = Math.acos(cosZenith)
+
+  const cosAzimuth = (Math.sin(latRad) * cosZenith - Math.sin(declRad)) / (Math.cos(latRad) * Math.sin(zenithRad))
+  const azimuthFromSouth = Math.acos(Math.min(1, Math.max(-1, cosAzimuth))) * RAD_TO_DEG
+  const azimuth = hourAngle > 0 ? (azimuthFromSouth + 180) % 360 : (540 - azimuthFromSouth) % 360
+
+  return { altitude: 90 - zenithRad * RAD_TO_DEG, azimuth }
+}
+
+// Converts an azimuth to a 16-point compass direction (e.g. 247° -> "WSW")
+export function getCompassDirection(azimuth: number): string {
+  const directions = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"]
+  return directions[Math.round((((azimuth % 360) + 360) % 360) / 22.5) % 16]
+}
+
+// Golden hour is when the sun is between -4° and +6°, blue hour between -6° and -4°
+export function getGoldenHourWindows(
+  lat: number,
+  lon: number,
+  date: string,
+  period: "morning" | "evening",
+): { goldenHour: LightWindow; blueHour: LightWindow } {
+  const direction = period === "morning" ? "rising" : "setting"
+  const upper = getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.goldenHourUpper, direction)
+  const lower = getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.goldenHourLower, direction)
+  const civil = getSunAltitudeTime(lat, lon, date, SUN_ALTITUDES.civil, direction)
+
+  // If the sun never climbs above +6° (winter at high latitudes), golden hour lasts until/from solar noon
+  const solarNoon = getSolarNoon(lon, date)
+  const goldenOuter = upper ?? (lower ? solarNoon : null)
+
+  if (period === "morning") {
+    return {
+      blueHour: { start: civil, end: lower },
+      goldenHour: { start: lower, end: goldenOuter },
+    }
+  }
+
+  return {
+    goldenHour: { start: goldenOuter, end: lower },
+    blueHour: { start: lower, end: civil },
+  }
+}
+
+export function getSolarNoon(lon: number, date: string): Date {
+  const dayStartMs = getUtcDayStart(date)
+
+  // Start from a rough estimate, then refine using the equation of time at that moment
+  let noonMinutes = 720 - 4 * lon
+  for (let i = 0; i < 2; i++) {
+    const { equationOfTime } = getSolarParameters(dayStartMs + noonMinutes * MS_PER_MINUTE)
+    noonMinutes = 720 - 4 * lon - equationOfTime
+  }
+
+  return new Date(dayStartMs + noonMinutes * MS_PER_MINUTE)
+}
+
+// Returns the moment the sun crosses the given altitude on that date, or null if it never does
+export function getSunAltitudeTime(
+  lat: number,
+  lon: number,
+  date: string,
+  altitude: number,
+  direction: "rising" | "setting",
+): Date | null {
+  const dayStartMs = getUtcDayStart(date)
+  const sign = direction === "rising" ? -1 : 1
+
+  let eventMinutes = 720 - 4 * lon
+  for (let i = 0; i < 3; i++) {
+    const { declination, equationOfTime } = getSolarParameters(dayStartMs + eventMinutes * MS_PER_MINUTE)
+    const hourAngle = getHourAngle(lat, declination, altitude)
+
+    if (hourAngle === null) {
+      return null
+    }
+
+    eventMinutes = 720 - 4 * lon - equationOfTime + sign * 4 * hourAngle
+  }
+
+  return new Date(dayStartMs + eventMinutes * MS_PER_MINUTE)
+}
+
+// Helper Functions
+
+function getUtcDayStart(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function getSolarParameters(timeMs: number) {
+  const julianDay = timeMs / (24 * 60 * MS_PER_MINUTE) + 2440587.5
+  const t = (julianDay - 2451545) / 36525 // Julian centuries since J2000.0
+
+  const geomMeanLong = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360
+  const geomMeanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t)
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t)
+
+  const anomalyRad = geomMeanAnomaly * DEG_TO_RAD
+  const equationOfCenter =
+    Math.sin(anomalyRad) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * anomalyRad) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * anomalyRad) * 0.000289
+
+  const trueLong = geomMeanLong + equationOfCenter
+  const omega = (125.04 - 1934.136 * t) * DEG_TO_RAD
+  const apparentLong = trueLong - 0.00569 - 0.00478 * Math.sin(omega)
+
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * DEG_TO_RAD
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLong * DEG_TO_RAD)) * RAD_TO_DEG
+
+  const y = Math.pow(Math.tan(obliquity / 2), 2)
+  const meanLongRad = geomMeanLong * DEG_TO_RAD
+  const equationOfTime =
+    4 *
+    RAD_TO_DEG *
+    (y * Math.sin(2 * meanLongRad) -
+      2 * eccentricity * Math.sin(anomalyRad) +
+      4 * eccentricity * y * Math.sin(anomalyRad) * Math.cos(2 * meanLongRad) -
+      0.5 * y * y * Math.sin(4 * meanLongRad) -
+      1.25 * eccentricity * eccentricity * Math.sin(2 * anomalyRad))
+
+  return { declination, equationOfTime } // degrees, minutes
+}
+
+function getHourAngle(lat: number, declination: number, altitude: number): number | null {
+  const latRad = lat * DEG_TO_RAD
+  const declRad = declination * DEG_TO_RAD
+
+  const cosHourAngle =
+    (Math.sin(altitude * DEG_TO_RAD) - Math.sin(latRad) * Math.sin(declRad)) / (Math.cos(latRad) * Math.cos(declRad))
+
+  // Sun stays entirely above or below this altitude all day
+  if (cosHourAngle > 1 || cosHourAngle < -1) {
+    return null
+  }
+
+  return Math.acos(cosHourAngle) * RAD_TO_DEG
+}
@@ -0,0 +1,55 @@
+import type { SunTimes } from "@/lib/utils/solar"
+
+// Shared walk timing helpers used by the single-day and multi-day planners
+
+export type FinishBy = "sunset" | "civilTwilight" | "nauticalTwilight" | "custom"
+
+export interface DarknessCutoff {
+  finishBy: FinishBy
+  time: Date
+  label: string
+}
+
+export function getDarknessCutoff(
+  sunTimes: SunTimes,
+  finishBy: FinishBy,
+  toleranceMinutes: number,
+): DarknessCutoff {
+  const sunset = sunTimes.sunset!
+
+  // During white nights twilight lasts until morning, so it's as dark as it gets at solar midnight
+  const solarMidnight = new Date(sunTimes.solarNoon.getTime() + 12 * 60 * 60 * 1000)
+
+  if (finishBy === "nauticalTwilight" && sunTimes.nauticalTwilightEnd) {
+    return { finishBy, time: sunTimes.nauticalTwilightEnd, label: "nautical twilight ends" }
+  }
+
+  // Fall back to civil twilight if it never gets nautically dark (e.g. summer at high latitudes)
+  if ((finishBy === "civilTwilight" || finishBy === "nauticalTwilight") && sunTimes.civilTwilightEnd) {
+    return { finishBy: "civilTwilight", time: sunTimes.civilTwilightEnd, label: "civil twilight ends" }
+  }
+
+  if (finishBy === "civilTwilight" || finishBy === "nauticalTwilight") {
+    return { finishBy, time: solarMidnight, label: "the darkest point of the night" }
+  }
+
+  if (finishBy === "custom") {
+    const tolerance = Math.max(0, Math.round(Number(toleranceMinutes) || 0))
+    return {
+      finishBy,
+      time: new Date(sunset.getTime() + tolerance * 60 * 1000),
+      label: `sunset + ${tolerance} minute${tolerance !== 1 ? "s" : ""}`,
+    }
+  }
+
+  return { finishBy: "sunset", time: sunset, label: "sunset" }
+}
+
+export function formatLocalTime(time: Date, timezone: string): string {
+  return time.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: timezone,
+  })
+}
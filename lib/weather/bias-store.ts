@@ -0,0 +1,83 @@
+// Forecast-vs-actual errors from "check current weather", kept in a local JSON file so forecasts for a
+// city can be corrected by how far off they've been before. Values are stored in °C and km/h.
+//
+// FORECAST_BIAS_FILE  Where to keep the observations, default ".data/forecast-bias.json".
+//
+// Hosts with a read-only filesystem can't record anything; callers should treat failures as non-fatal.
+
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+const DEFAULT_STORE_FILE = ".data/forecast-bias.json"
+const MAX_OBSERVATIONS = 5000 // Oldest are dropped first
+
+export interface ForecastErrorObservation {
+  location: string // Rounded "lat,lon", see getLocationKey
+  hour: number // Local hour the forecast was for, 0-23
+  leadTimeHours: number // How far ahead the forecast was fetched
+  temperatureError: number // Actual minus forecast, °C
+  windSpeedError: number // Actual minus forecast, km/h
+  recordedAt: string // ISO timestamp
+}
+
+interface StoreFile {
+  observations: ForecastErrorObservation[]
+}
+
+// About 10 km, so checks from around the same city pool together
+export function getLocationKey(lat: number, lon: number): string {
+  return `${lat.toFixed(1)},${lon.toFixed(1)}`
+}
+
+export async function readObservations(location: string): Promise<ForecastErrorObservation[]> {
+  const store = await readStore()
+  return store.observations.filter((observation) => observation.location === location)
+}
+
+// Read-modify-write, so two checks landing at once would otherwise both read the old store and one
+// observation would be lost. Writes from this server process go through the queue one at a time.
+let writeQueue: Promise<void> = Promise.resolve()
+
+export function addObservation(observation: ForecastErrorObservation): Promise<void> {
+  const write = writeQueue.then(() => appendObservation(observation))
+  writeQueue = write.catch(() => {})
+  return write
+}
+
+async function appendObservation(observation: ForecastErrorObservation): Promise<void> {
+  const store = await readStore()
+  store.observations.push(observation)
+  if (store.observations.length > MAX_OBSERVATIONS) {
+    store.observations.splice(0, store.observations.length - MAX_OBSERVATIONS)
+  }
+
+  // Write to a temporary file and rename so a crash mid-write can't leave half a JSON file behind.
+  // The temporary name is unique, so another process writing at the same time can't rename it away.
+  const file = getStoreFile()
+  const tempFile = `${file}.${randomUUID()}.tmp`
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  try {
+    await fs.writeFile(tempFile, JSON.stringify(store))
+    await fs.rename(tempFile, file)
+  } catch (error) {
+    await fs.rm(tempFile, { force: true })
+    throw error
+  }
+}
+
+async function readStore(): Promise<StoreFile> {
+  try {
+    const contents = await fs.readFile(getStoreFile(), "utf8")
+    return JSON.parse(contents)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { observations: [] }
+    }
+    throw error
+  }
+}
+
+function getStoreFile(): string {
+  return path.resolve(process.env.FORECAST_BIAS_FILE || DEFAULT_STORE_FILE)
+}
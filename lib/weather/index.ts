@@ -0,0 +1,89 @@
+// Weather client used by the API routes and MCP tools. Providers are tried in order and the first
+// successful response wins, so an outage (or an unsupported query) falls through to the next one.
+//
+// WEATHER_PROVIDER    Comma-separated provider order, default "open-meteo,met-norway". Use "mock" to run offline.
+// WEATHER_MOCK_FIXTURE  Fixture for the mock provider: "clear" (default), "stormy" or "icy".
+
+import type { WeatherClient, WeatherProvider, WeatherQuery } from "./types"
+import { openMeteoProvider } from "./open-meteo"
+import { metNorwayProvider } from "./met-norway"
+import { mockProvider } from "./mock"
+import { lookupTimezone } from "./timezone"
+
+export type {
+  AirQualityForecast,
+  CurrentWeather,
+  DailyArchive,
+  DailyArchiveQuery,
+  EnsembleForecast,
+  HourlyForecast,
+  HourlyForecastQuery,
+  PrecipitationNowcast,
+  SpeedUnit,
+  SurfaceWeather,
+  TemperatureUnit,
+  WeatherClient,
+  WeatherProvider,
+  WeatherQuery,
+} from "./types"
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+  "open-meteo": openMeteoProvider,
+  "met-norway": metNorwayProvider,
+  mock: mockProvider,
+}
+
+const DEFAULT_PROVIDER_ORDER = "open-meteo,met-norway"
+
+export function getWeatherClient(): WeatherClient {
+  const names = (process.env.WEATHER_PROVIDER || DEFAULT_PROVIDER_ORDER)
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  const providers = names.map((name) => {
+    const provider = PROVIDERS[name]
+    if (!provider) {
+      throw new Error(`Unknown weather provider "${name}" (available: ${Object.keys(PROVIDERS).join(", ")})`)
+    }
+    return provider
+  })
+
+  return createFallbackClient(providers)
+}
+
+function createFallbackClient(providers: WeatherProvider[]): WeatherClient {
+  async function withFallback<T>(call: (provider: WeatherProvider) => Promise<T>): Promise<T> {
+    const errors: string[] = []
+
+    for (const provider of providers) {
+      try {
+        return await call(provider)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`[weather] ${provider.name} failed, trying next provider:`, message)
+        errors.push(`${provider.name}: ${message}`)
+      }
+    }
+
+    throw new Error(`All weather providers failed (${errors.join("; ")})`)
+  }
+
+  // Resolved here rather than by a provider, so a fallback provider reports the same local times
+  function withTimezone<Q extends WeatherQuery>(query: Q): Q {
+    return { ...query, timezone: query.timezone ?? lookupTimezone(query.lat, query.lon) }
+  }
+
+  return {
+    name: providers.map((provider) => provider.name).join(","),
+    getTimezone: async (lat, lon) => lookupTimezone(lat, lon),
+    getCurrentWeather: (query) => withFallback((provider) => provider.getCurrentWeather(withTimezone(query))),
+    getHourlyForecast: (query) => withFallback((provider) => provider.getHourlyForecast(withTimezone(query))),
+    getEnsembleForecast: (query) => withFallback((provider) => provider.getEnsembleForecast(withTimezone(query))),
+    getDailyArchive: (query) => withFallback((provider) => provider.getDailyArchive(withTimezone(query))),
+    getSurfaceWeather: (query) => withFallback((provider) => provider.getSurfaceWeather(withTimezone(query))),
+    getPrecipitationNowcast: (query) =>
+      withFallback((provider) => provider.getPrecipitationNowcast(withTimezone(query))),
+    getAirQuality: (query) => withFallback((provider) => provider.getAirQuality(withTimezone(query))),
+  }
+}
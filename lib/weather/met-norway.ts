@@ -0,0 +1,178 @@
+// MET Norway Locationforecast (https://api.met.no/weatherapi/locationforecast/2.0/documentation)
+// Global coverage, no API key, but requires an identifying User-Agent. Values are always metric and
+// times are UTC, so they're converted to the requested units and the query's timezone here.
+
+import moment from "moment-timezone"
+import type { HourlyForecast, WeatherProvider } from "./types"
+import { fromCelsius, fromKmh } from "./units"
+
+const LOCATIONFORECAST_URL = "https://api.met.no/weatherapi/locationforecast/2.0/complete"
+const USER_AGENT = process.env.WEATHER_USER_AGENT || "sunset-walk-planner/1.0"
+const MS_TO_KMH = 3.6
+const HOUR_MS = 60 * 60 * 1000
+
+interface InstantDetails {
+  air_temperature: number
+  relative_humidity: number
+  cloud_area_fraction: number
+  wind_speed: number // m/s
+  wind_speed_of_gust?: number // m/s
+  wind_from_direction: number
+  ultraviolet_index_clear_sky?: number
+}
+
+interface PeriodForecast {
+  summary: { symbol_code: string }
+  details?: { precipitation_amount?: number; probability_of_precipitation?: number }
+}
+
+interface TimeseriesEntry {
+  time: string // UTC ISO timestamp
+  data: {
+    instant: { details: InstantDetails }
+    next_1_hours?: PeriodForecast
+    next_6_hours?: PeriodForecast
+    next_12_hours?: PeriodForecast
+  }
+}
+
+export const metNorwayProvider: WeatherProvider = {
+  name: "met-norway",
+
+  async getCurrentWeather({ lat, lon, tempUnit = "fahrenheit", speedUnit = "mph", timezone = "UTC" }) {
+    const timeseries = await fetchTimeseries(lat, lon)
+    const now = Date.now()
+
+    // The first entry is the current hour; skip any that have already passed
+    const entry = timeseries.find((e) => new Date(e.time).getTime() + HOUR_MS > now) ?? timeseries[0]
+    const details = entry.data.instant.details
+    const nextHour = entry.data.next_1_hours
+
+    const temperature = fromCelsius(details.air_temperature, tempUnit)
+
+    return {
+      time: moment.utc(entry.time).tz(timezone).format("YYYY-MM-DDTHH:mm"),
+      temperature,
+      apparentTemperature: temperature, // Not reported by MET Norway
+      precipitation: nextHour?.details?.precipitation_amount ?? 0,
+      humidity: details.relative_humidity,
+      cloudCover: details.cloud_area_fraction,
+      weatherCode: getWmoCode(nextHour?.summary.symbol_code),
+      windSpeed: fromKmh(details.wind_speed * MS_TO_KMH, speedUnit),
+      windDirection: details.wind_from_direction,
+      windGusts: fromKmh((details.wind_speed_of_gust ?? details.wind_speed) * MS_TO_KMH, speedUnit),
+      uvIndex: details.ultraviolet_index_clear_sky ?? 0,
+      visibility: null,
+    }
+  },
+
+  async getHourlyForecast({ lat, lon, tempUnit = "fahrenheit", speedUnit = "mph", timezone = "UTC" }) {
+    const timeseries = await fetchTimeseries(lat, lon)
+
+    // Hourly for the first couple of days, then every 6 hours. Callers count on one entry per hour, so the gaps
+    // are filled in: instant values are interpolated, and each period's forecast is shared across its hours.
+    const forecast: HourlyForecast = {
+      timezone,
+      time: [],
+      temperature: [],
+      precipitationProbability: [],
+      precipitation: [],
+      humidity: [],
+      windSpeed: [],
+      windGusts: [],
+      weatherCode: [],
+      visibility: [],
+      uvIndex: [],
+    }
+
+    timeseries.forEach((entry, index) => {
+      const startMs = new Date(entry.time).getTime()
+      const nextEntry = timeseries[index + 1]
+      const gapHours = nextEntry ? Math.max(1, Math.round((new Date(nextEntry.time).getTime() - startMs) / HOUR_MS)) : 1
+
+      const { next_1_hours, next_6_hours, next_12_hours } = entry.data
+      const period = next_1_hours ?? next_6_hours ?? next_12_hours
+      const precipitationPerHour = next_1_hours
+        ? (next_1_hours.details?.precipitation_amount ?? 0)
+        : (next_6_hours?.details?.precipitation_amount ?? 0) / 6
+
+      for (let hour = 0; hour < gapHours; hour++) {
+        const fraction = hour / gapHours
+        const interpolate = (pick: (details: InstantDetails) => number) => {
+          const from = pick(entry.data.instant.details)
+          return nextEntry ? from + (pick(nextEntry.data.instant.details) - from) * fraction : from
+        }
+        const windSpeed = interpolate((details) => details.wind_speed)
+        const windGusts = interpolate((details) => details.wind_speed_of_gust ?? details.wind_speed)
+
+        forecast.time.push(moment.utc(startMs + hour * HOUR_MS).tz(timezone).format("YYYY-MM-DDTHH:mm"))
+        forecast.temperature.push(fromCelsius(interpolate((details) => details.air_temperature), tempUnit))
+        forecast.precipitationProbability.push(period?.details?.probability_of_precipitation ?? 0)
+        forecast.precipitation.push(precipitationPerHour)
+        forecast.humidity.push(interpolate((details) => details.relative_humidity))
+        forecast.windSpeed.push(fromKmh(windSpeed * MS_TO_KMH, speedUnit))
+        forecast.windGusts.push(fromKmh(windGusts * MS_TO_KMH, speedUnit))
+        forecast.weatherCode.push(getWmoCode(period?.summary.symbol_code))
+        forecast.visibility.push(null)
+        forecast.uvIndex.push(interpolate((details) => details.ultraviolet_index_clear_sky ?? 0))
+      }
+    })
+
+    return forecast
+  },
+
+  async getEnsembleForecast() {
+    throw new Error("MET Norway does not provide ensemble forecasts through Locationforecast")
+  },
+
+  async getDailyArchive() {
+    throw new Error("MET Norway Locationforecast has no historical archive")
+  },
+
+  async getSurfaceWeather() {
+    throw new Error("MET Norway does not provide past weather or snow depth")
+  },
+
+  async getPrecipitationNowcast() {
+    // MET Norway's 15-minute nowcast only covers the Nordic countries
+    throw new Error("MET Norway does not provide a global precipitation nowcast")
+  },
+
+  async getAirQuality() {
+    throw new Error("MET Norway does not provide global air quality data")
+  },
+}
+
+async function fetchTimeseries(lat: number, lon: number): Promise<TimeseriesEntry[]> {
+  // MET Norway asks for no more than 4 decimals so responses can be cached
+  const url = `${LOCATIONFORECAST_URL}?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}`
+  const response = await fetch(url, { headers: { "User-Agent": USER_AGENT } })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`MET Norway request failed: ${response.status} ${errorText}`)
+  }
+
+  const data = await response.json()
+  return data.properties.timeseries
+}
+
+// Maps MET Norway symbol codes (e.g. "lightrainshowers_day") to the closest WMO weather code
+function getWmoCode(symbolCode?: string): number {
+  if (!symbolCode) return 3
+
+  const symbol = symbolCode.replace(/_(day|night|polartwilight)$/, "")
+
+  if (symbol.includes("thunder")) return 95
+  if (symbol === "clearsky") return 0
+  if (symbol === "fair") return 1
+  if (symbol === "partlycloudy") return 2
+  if (symbol === "cloudy") return 3
+  if (symbol === "fog") return 45
+  if (symbol.includes("snowshowers")) return symbol.startsWith("heavy") ? 86 : 85
+  if (symbol.includes("snow")) return symbol.startsWith("light") ? 71 : symbol.startsWith("heavy") ? 75 : 73
+  if (symbol.includes("sleet")) return 68 // Rain and snow mixed
+  if (symbol.includes("rainshowers")) return symbol.startsWith("light") ? 80 : symbol.startsWith("heavy") ? 82 : 81
+  if (symbol.includes("rain")) return symbol.startsWith("light") ? 61 : symbol.startsWith("heavy") ? 65 : 63
+  return 3
+}
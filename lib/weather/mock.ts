@@ -0,0 +1,160 @@
+// Offline provider for tests and local development (WEATHER_PROVIDER=mock).
+// Each fixture describes one day hour by hour (local time, Celsius and km/h); the mock repeats that day
+// across the requested range so walk plans for any date get plausible data without a network.
+
+import moment from "moment-timezone"
+import type { WeatherProvider } from "./types"
+import { fromCelsius, fromKmh } from "./units"
+import clearFixture from "./fixtures/clear.json"
+import stormyFixture from "./fixtures/stormy.json"
+import icyFixture from "./fixtures/icy.json"
+
+type WeatherFixture = typeof clearFixture
+
+const MOCK_ENSEMBLE_MEMBERS = 11
+
+const FIXTURES: Record<string, WeatherFixture> = {
+  clear: clearFixture,
+  stormy: stormyFixture,
+  icy: icyFixture,
+}
+
+export const mockProvider: WeatherProvider = {
+  name: "mock",
+
+  async getCurrentWeather({ tempUnit = "fahrenheit", speedUnit = "mph", timezone = "UTC" }) {
+    const fixture = getFixture()
+    const now = moment().tz(timezone)
+    const hour = now.hour()
+    const hourly = fixture.hourly
+    const temperature = fromCelsius(hourly.temperature[hour], tempUnit)
+
+    return {
+      time: now.format("YYYY-MM-DDTHH:mm"),
+      temperature,
+      apparentTemperature: temperature,
+      precipitation: fixture.nowcastPrecipitation.slice(0, 4).reduce((sum, value) => sum + value, 0),
+      humidity: fixture.humidity,
+      cloudCover: fixture.cloudCover,
+      weatherCode: hourly.weatherCode[hour],
+      windSpeed: fromKmh(hourly.windSpeed[hour], speedUnit),
+      windDirection: fixture.windDirection,
+      windGusts: fromKmh(hourly.windGusts[hour], speedUnit),
+      uvIndex: hourly.uvIndex[hour],
+      visibility: hourly.visibility[hour],
+    }
+  },
+
+  async getHourlyForecast({ tempUnit = "fahrenheit", speedUnit = "mph", timezone = "UTC", days = 16 }) {
+    const fixture = getFixture()
+    const start = moment().tz(timezone).startOf("day")
+    const hours = Array.from({ length: days * 24 }, (_, i) => i)
+    const hourly = fixture.hourly
+
+    return {
+      timezone,
+      time: hours.map((i) => start.clone().add(i, "hours").format("YYYY-MM-DDTHH:mm")),
+      temperature: hours.map((i) => fromCelsius(hourly.temperature[i % 24], tempUnit)),
+      precipitationProbability: hours.map((i) => hourly.precipitationProbability[i % 24]),
+      precipitation: hours.map((i) => fixture.surface.precipitation[i % 24]),
+      humidity: hours.map(() => fixture.humidity),
+      windSpeed: hours.map((i) => fromKmh(hourly.windSpeed[i % 24], speedUnit)),
+      windGusts: hours.map((i) => fromKmh(hourly.windGusts[i % 24], speedUnit)),
+      weatherCode: hours.map((i) => hourly.weatherCode[i % 24]),
+      visibility: hours.map((i) => hourly.visibility[i % 24]),
+      uvIndex: hours.map((i) => hourly.uvIndex[i % 24]),
+    }
+  },
+
+  async getEnsembleForecast({ tempUnit = "fahrenheit", timezone = "UTC", days = 16 }) {
+    const fixture = getFixture()
+    const start = moment().tz(timezone).startOf("day")
+    const hours = Array.from({ length: days * 24 }, (_, i) => i)
+    const hourly = fixture.hourly
+
+    // Members fan out evenly around the fixture day, with the spread widening by lead time like a real ensemble
+    const memberOffsets = Array.from({ length: MOCK_ENSEMBLE_MEMBERS }, (_, m) => m / (MOCK_ENSEMBLE_MEMBERS - 1) - 0.5)
+
+    return {
+      timezone,
+      time: hours.map((i) => start.clone().add(i, "hours").format("YYYY-MM-DDTHH:mm")),
+      temperature: memberOffsets.map((offset) =>
+        hours.map((i) => {
+          const spreadCelsius = 1 + (i / 24) * 0.8
+          const celsius = hourly.temperature[i % 24] + offset * spreadCelsius * 2
+          return fromCelsius(celsius, tempUnit)
+        }),
+      ),
+      precipitation: memberOffsets.map((offset) =>
+        hours.map((i) => {
+          // Roughly 2 mm/h at 100% chance, shared out unevenly between members
+          const expected = (hourly.precipitationProbability[i % 24] / 100) * 2
+          return Math.max(0, expected * (1 + offset * 2))
+        }),
+      ),
+    }
+  },
+
+  async getDailyArchive({ tempUnit = "fahrenheit", startDate, endDate }) {
+    const { climateNormal } = getFixture()
+    const start = moment.utc(startDate)
+    const dayCount = moment.utc(endDate).diff(start, "days") + 1
+    const days = Array.from({ length: dayCount }, (_, i) => i)
+
+    // Every past day looks like the fixture's normal, so the normal comes out exactly as written
+    return {
+      time: days.map((i) => start.clone().add(i, "days").format("YYYY-MM-DD")),
+      temperatureMean: days.map(() => fromCelsius(climateNormal.temperatureMean, tempUnit)),
+      precipitation: days.map(() => climateNormal.precipitation),
+    }
+  },
+
+  async getSurfaceWeather({ timezone = "UTC", days = 16 }) {
+    const fixture = getFixture()
+    const start = moment().tz(timezone).startOf("day").subtract(1, "day")
+    const hours = Array.from({ length: (days + 1) * 24 }, (_, i) => i)
+    const hourly = fixture.hourly
+
+    return {
+      time: hours.map((i) => start.clone().add(i, "hours").toISOString()),
+      temperature: hours.map((i) => hourly.temperature[i % 24]),
+      precipitation: hours.map((i) => fixture.surface.precipitation[i % 24]),
+      snowfall: hours.map((i) => fixture.surface.snowfall[i % 24]),
+      snowDepth: hours.map(() => fixture.surface.snowDepth),
+    }
+  },
+
+  async getPrecipitationNowcast() {
+    const fixture = getFixture()
+    const start = moment.utc().startOf("hour")
+
+    return {
+      time: fixture.nowcastPrecipitation.map((_, i) => start.clone().add(i * 15, "minutes").toISOString()),
+      precipitation: fixture.nowcastPrecipitation,
+    }
+  },
+
+  async getAirQuality() {
+    const { airQuality } = getFixture()
+    const start = moment.utc().startOf("hour")
+    const hours = Array.from({ length: 5 * 24 }, (_, i) => i)
+
+    return {
+      time: hours.map((i) => start.clone().add(i, "hours").toISOString()),
+      usAqi: hours.map(() => airQuality.usAqi),
+      europeanAqi: hours.map(() => airQuality.europeanAqi),
+      pm25: hours.map(() => airQuality.pm25),
+      ozone: hours.map(() => airQuality.ozone),
+    }
+  },
+}
+
+function getFixture(): WeatherFixture {
+  const name = process.env.WEATHER_MOCK_FIXTURE || "clear"
+  const fixture = FIXTURES[name]
+
+  if (!fixture) {
+    throw new Error(`Unknown weather fixture "${name}" (available: ${Object.keys(FIXTURES).join(", ")})`)
+  }
+  return fixture
+}
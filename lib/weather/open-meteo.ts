@@ -0,0 +1,172 @@
+// Open-Meteo (https://open-meteo.com): free, no API key required
+
+import type { WeatherProvider } from "./types"
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast"
+const ENSEMBLE_URL = "https://ensemble-api.open-meteo.com/v1/ensemble"
+const ENSEMBLE_MODEL = "gfs_seamless" // NOAA GEFS: 31 members with global coverage
+const AIR_QUALITY_URL = "https://air-quality-api.open-meteo.com/v1/air-quality"
+const ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive"
+
+// Past weather never changes, so archive responses are kept for the life of the server
+const MAX_CACHED_ARCHIVES = 50
+const archiveCache = new Map<string, Promise<ArchiveResponse>>()
+
+interface ArchiveResponse {
+  daily: {
+    time: string[]
+    temperature_2m_mean: (number | null)[]
+    precipitation_sum: (number | null)[]
+  }
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+
+  async getCurrentWeather({ lat, lon, tempUnit = "fahrenheit", speedUnit = "mph", timezone = "auto" }) {
+    const variables =
+      "temperature_2m,apparent_temperature,precipitation,relative_humidity_2m,cloud_cover,weather_code,wind_speed_10m,wind_direction_10m,wind_gusts_10m,uv_index,visibility"
+    const data = await fetchJson(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&current=${variables}&temperature_unit=${tempUnit}&wind_speed_unit=${speedUnit}&timezone=${encodeURIComponent(timezone)}`,
+    )
+    const current = data.current
+
+    return {
+      time: current.time,
+      temperature: current.temperature_2m,
+      apparentTemperature: current.apparent_temperature,
+      precipitation: current.precipitation || 0,
+      humidity: current.relative_humidity_2m,
+      cloudCover: current.cloud_cover,
+      weatherCode: current.weather_code,
+      windSpeed: current.wind_speed_10m,
+      windDirection: current.wind_direction_10m,
+      windGusts: current.wind_gusts_10m,
+      uvIndex: current.uv_index || 0,
+      visibility: current.visibility ?? null,
+    }
+  },
+
+  async getHourlyForecast({ lat, lon, tempUnit = "fahrenheit", speedUnit = "mph", timezone = "auto", days = 16 }) {
+    const variables =
+      "temperature_2m,precipitation_probability,precipitation,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code,visibility,uv_index"
+    const data = await fetchJson(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&hourly=${variables}&temperature_unit=${tempUnit}&wind_speed_unit=${speedUnit}&timezone=${encodeURIComponent(timezone)}&forecast_days=${days}`,
+    )
+    const hourly = data.hourly
+
+    return {
+      timezone: data.timezone,
+      time: hourly.time,
+      temperature: hourly.temperature_2m,
+      precipitationProbability: hourly.precipitation_probability.map((value: number | null) => value ?? 0),
+      precipitation: hourly.precipitation.map((value: number | null) => value ?? 0),
+      humidity: hourly.relative_humidity_2m,
+      windSpeed: hourly.wind_speed_10m,
+      windGusts: hourly.wind_gusts_10m.map((value: number | null) => value ?? 0),
+      weatherCode: hourly.weather_code,
+      visibility: hourly.visibility,
+      uvIndex: hourly.uv_index.map((value: number | null) => value ?? 0),
+    }
+  },
+
+  async getEnsembleForecast({ lat, lon, tempUnit = "fahrenheit", timezone = "auto", days = 16 }) {
+    const data = await fetchJson(
+      `${ENSEMBLE_URL}?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation&models=${ENSEMBLE_MODEL}&temperature_unit=${tempUnit}&timezone=${encodeURIComponent(timezone)}&forecast_days=${days}`,
+    )
+    const hourly = data.hourly
+
+    // The control run is "temperature_2m", the perturbed members are "temperature_2m_member01" and so on
+    const getMembers = (variable: string): number[][] =>
+      Object.keys(hourly)
+        .filter((key) => key === variable || key.startsWith(`${variable}_member`))
+        .map((key) => hourly[key].map((value: number | null) => value ?? Number.NaN))
+
+    return {
+      timezone: data.timezone,
+      time: hourly.time,
+      temperature: getMembers("temperature_2m"),
+      precipitation: getMembers("precipitation"),
+    }
+  },
+
+  async getSurfaceWeather({ lat, lon, days = 16 }) {
+    const data = await fetchJson(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation,snowfall,snow_depth&past_days=1&forecast_days=${days}&timezone=GMT`,
+    )
+    const hourly = data.hourly
+
+    return {
+      time: hourly.time.map(toUtcIso),
+      temperature: hourly.temperature_2m,
+      precipitation: hourly.precipitation.map((value: number | null) => value ?? 0),
+      snowfall: hourly.snowfall.map((value: number | null) => value ?? 0),
+      snowDepth: hourly.snow_depth.map((value: number | null) => value ?? 0),
+    }
+  },
+
+  async getDailyArchive({ lat, lon, tempUnit = "fahrenheit", startDate, endDate }) {
+    // Round the location so nearby cities share a cache entry (the archive grid is ~10 km anyway)
+    const url = `${ARCHIVE_URL}?latitude=${lat.toFixed(1)}&longitude=${lon.toFixed(1)}&start_date=${startDate}&end_date=${endDate}&daily=temperature_2m_mean,precipitation_sum&temperature_unit=${tempUnit}&timezone=auto`
+
+    let request = archiveCache.get(url)
+    if (!request) {
+      request = fetchJson(url)
+      if (archiveCache.size >= MAX_CACHED_ARCHIVES) {
+        archiveCache.delete(archiveCache.keys().next().value as string)
+      }
+      archiveCache.set(url, request)
+      request.catch(() => archiveCache.delete(url))
+    }
+
+    const data = await request
+    const daily = data.daily
+
+    return {
+      time: daily.time,
+      temperatureMean: daily.temperature_2m_mean.map((value) => value ?? Number.NaN),
+      precipitation: daily.precipitation_sum.map((value) => value ?? Number.NaN),
+    }
+  },
+
+  async getPrecipitationNowcast({ lat, lon }) {
+    // Next 6 hours in 15-minute slots, in UTC so slot times can be compared directly
+    const data = await fetchJson(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&minutely_15=precipitation&forecast_minutely_15=24&timezone=GMT`,
+    )
+
+    return {
+      time: data.minutely_15.time.map(toUtcIso),
+      precipitation: data.minutely_15.precipitation.map((value: number | null) => value ?? 0),
+    }
+  },
+
+  async getAirQuality({ lat, lon }) {
+    const data = await fetchJson(
+      `${AIR_QUALITY_URL}?latitude=${lat}&longitude=${lon}&hourly=us_aqi,european_aqi,pm2_5,ozone&timezone=GMT&forecast_days=5`,
+    )
+    const hourly = data.hourly
+
+    return {
+      time: hourly.time.map(toUtcIso),
+      usAqi: hourly.us_aqi.map((value: number | null) => value ?? null),
+      europeanAqi: hourly.european_aqi.map((value: number | null) => value ?? null),
+      pm25: hourly.pm2_5.map((value: number | null) => value ?? null),
+      ozone: hourly.ozone.map((value: number | null) => value ?? null),
+    }
+  },
+}
+
+async function fetchJson(url: string) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Open-Meteo request failed: ${response.status} ${errorText}`)
+  }
+  return response.json()
+}
+
+// Open-Meteo GMT times come back without a zone ("2025-10-19T17:15")
+function toUtcIso(time: string): string {
+  return new Date(`${time}Z`).toISOString()
+}
@@ -0,0 +1,8 @@
+// Timezone from coordinates, looked up offline. Every provider is handed this zone, so local times come out
+// the same whichever provider answered, and a provider outage can't leave times in UTC.
+
+import tzlookup from "@photostructure/tz-lookup"
+
+export function lookupTimezone(lat: number, lon: number): string {
+  return tzlookup(lat, lon)
+}
@@ -0,0 +1,102 @@
+// Provider-agnostic weather types. Weather codes are always WMO codes, whatever the source.
+
+export type TemperatureUnit = "celsius" | "fahrenheit"
+export type SpeedUnit = "kmh" | "mph"
+
+export interface WeatherQuery {
+  lat: number
+  lon: number
+  tempUnit?: TemperatureUnit
+  speedUnit?: SpeedUnit
+  timezone?: string // IANA timezone for local times; the client fills it in from the coordinates
+}
+
+export interface HourlyForecastQuery extends WeatherQuery {
+  days?: number
+}
+
+export interface DailyArchiveQuery extends WeatherQuery {
+  startDate: string // "YYYY-MM-DD"
+  endDate: string // "YYYY-MM-DD"
+}
+
+export interface CurrentWeather {
+  time: string // Local to the location, "YYYY-MM-DDTHH:mm"
+  temperature: number
+  apparentTemperature: number
+  precipitation: number // mm
+  humidity: number // %
+  cloudCover: number // %
+  weatherCode: number
+  windSpeed: number
+  windDirection: number // Degrees
+  windGusts: number
+  uvIndex: number
+  visibility: number | null // Meters, null when the provider doesn't report it
+}
+
+export interface HourlyForecast {
+  timezone: string
+  time: string[] // Local to `timezone`, "YYYY-MM-DDTHH:mm"
+  temperature: number[]
+  precipitationProbability: number[] // %
+  precipitation: number[] // mm per hour
+  humidity: number[] // %
+  windSpeed: number[]
+  windGusts: number[]
+  weatherCode: number[]
+  visibility: (number | null)[] // Meters
+  uvIndex: number[]
+}
+
+export interface EnsembleForecast {
+  timezone: string
+  time: string[] // Local to `timezone`, "YYYY-MM-DDTHH:mm"
+  temperature: number[][] // One hourly series per ensemble member
+  precipitation: number[][] // mm per hour, one hourly series per ensemble member
+}
+
+export interface DailyArchive {
+  time: string[] // "YYYY-MM-DD"
+  temperatureMean: number[]
+  precipitation: number[] // mm per day
+}
+
+// Always metric, since ground conditions hinge on 0°C
+export interface SurfaceWeather {
+  time: string[] // UTC ISO timestamps, one per hour, starting a day in the past
+  temperature: number[] // °C
+  precipitation: number[] // mm per hour
+  snowfall: number[] // cm per hour
+  snowDepth: number[] // Meters
+}
+
+export interface PrecipitationNowcast {
+  time: string[] // UTC ISO timestamps, one per 15-minute slot
+  precipitation: number[] // mm per 15 minutes
+}
+
+// Values are null for hours the air quality model has no data for
+export interface AirQualityForecast {
+  time: string[] // UTC ISO timestamps, one per hour
+  usAqi: (number | null)[]
+  europeanAqi: (number | null)[]
+  pm25: (number | null)[] // μg/m³
+  ozone: (number | null)[] // μg/m³
+}
+
+export interface WeatherProvider {
+  name: string
+  getCurrentWeather(query: WeatherQuery): Promise<CurrentWeather>
+  getHourlyForecast(query: HourlyForecastQuery): Promise<HourlyForecast>
+  getEnsembleForecast(query: HourlyForecastQuery): Promise<EnsembleForecast>
+  getSurfaceWeather(query: HourlyForecastQuery): Promise<SurfaceWeather>
+  getDailyArchive(query: DailyArchiveQuery): Promise<DailyArchive>
+  getPrecipitationNowcast(query: WeatherQuery): Promise<PrecipitationNowcast>
+  getAirQuality(query: WeatherQuery): Promise<AirQualityForecast>
+}
+
+// What the routes use: the providers behind one interface, plus a timezone lookup that doesn't depend on any of them
+export interface WeatherClient extends WeatherProvider {
+  getTimezone(lat: number, lon: number): Promise<string>
+}
@@ -0,0 +1,19 @@
+// Providers that only report metric values convert them with these
+
+import type { SpeedUnit, TemperatureUnit } from "./types"
+
+export function fromCelsius(celsius: number, unit: TemperatureUnit = "fahrenheit"): number {
+  return unit === "celsius" ? celsius : (celsius * 9) / 5 + 32
+}
+
+export function fromKmh(kmh: number, unit: SpeedUnit = "mph"): number {
+  return unit === "kmh" ? kmh : kmh * 0.621371
+}
+
+export function toCelsius(value: number, unit: TemperatureUnit = "fahrenheit"): number {
+  return unit === "celsius" ? value : ((value - 32) * 5) / 9
+}
+
+export function toKmh(value: number, unit: SpeedUnit = "mph"): number {
+  return unit === "kmh" ? value : value / 0.621371
+}